@@ -9,6 +9,7 @@ import AdminDashboard from "./pages/AdminDashboard";
 import AdminLoopDetails from "./pages/AdminLoopDetails";
 import NewsletterEditor from "./pages/NewsletterEditor";
 import ProfilePage from "./pages/ProfilePage";
+import DevSMS from "./pages/DevSMS";
 import { Navbar } from "./components/Navbar";
 
 function App() {
@@ -34,6 +35,7 @@ function App() {
         ) : (
           <Switch>
             <Route path="/profile" component={ProfilePage} />
+            {import.meta.env.DEV && <Route path="/dev/sms" component={DevSMS} />}
             <Route path="/loops/:id" component={LoopManager} />
             {user.isPrivileged && (
               <>
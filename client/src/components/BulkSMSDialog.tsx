@@ -1,5 +1,7 @@
 import { useState, useCallback, memo } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
 import { Loader2, MessageSquare } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import {
@@ -22,8 +24,19 @@ interface BulkSMSFormData {
   message: string;
 }
 
+interface SMSJobProgress {
+  id: number;
+  total: number;
+  sent: number;
+  failed: number;
+  suppressed: number;
+  pending: number;
+  done: boolean;
+}
+
 function BulkSMSDialogComponent({ loopId, loopName, memberCount }: BulkSMSDialogProps) {
   const [isOpen, setIsOpen] = useState(false);
+  const [jobId, setJobId] = useState<number | null>(null);
   const { toast } = useToast();
   const { handleSubmit, register, formState: { isSubmitting }, reset } = useForm<BulkSMSFormData>({
     defaultValues: {
@@ -31,6 +44,13 @@ function BulkSMSDialogComponent({ loopId, loopName, memberCount }: BulkSMSDialog
     }
   });
 
+  // Messages go out through a throttled queue; poll until every one is settled
+  const { data: job } = useQuery<SMSJobProgress>({
+    queryKey: [`/api/admin/sms-jobs/${jobId}`],
+    enabled: jobId !== null,
+    refetchInterval: (query) => (query.state.data?.done ? false : 2000),
+  });
+
   const onSubmit = useCallback(async (data: BulkSMSFormData) => {
     if (!data.message.trim()) return;
 
@@ -48,13 +68,9 @@ function BulkSMSDialogComponent({ loopId, loopName, memberCount }: BulkSMSDialog
         throw new Error(await response.text());
       }
 
-      toast({
-        title: "Success",
-        description: "Messages sent successfully!",
-      });
-
+      const queued: SMSJobProgress = await response.json();
+      setJobId(queued.id);
       reset();
-      setIsOpen(false);
     } catch (error) {
       toast({
         title: "Error",
@@ -62,11 +78,12 @@ function BulkSMSDialogComponent({ loopId, loopName, memberCount }: BulkSMSDialog
         variant: "destructive",
       });
     }
-  }, [loopId, toast, reset, setIsOpen]);
+  }, [loopId, toast, reset]);
 
   const handleOpenChange = useCallback((open: boolean) => {
     if (!open) {
       reset();
+      setJobId(null);
     }
     setIsOpen(open);
   }, [reset]);
@@ -83,30 +100,48 @@ function BulkSMSDialogComponent({ loopId, loopName, memberCount }: BulkSMSDialog
         <DialogHeader>
           <DialogTitle>Send Message to All Members</DialogTitle>
         </DialogHeader>
-        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
-          <p className="text-sm text-muted-foreground">
-            This message will be sent to all {memberCount} members of {loopName}.
-          </p>
-          <Textarea
-            {...register("message", { required: true })}
-            placeholder="Type your message here..."
-            className="min-h-[100px]"
-          />
-          <Button
-            type="submit"
-            className="w-full"
-            disabled={isSubmitting}
-          >
-            {isSubmitting ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Sending...
-              </>
-            ) : (
-              "Send Message"
-            )}
-          </Button>
-        </form>
+        {jobId !== null ? (
+          <div className="space-y-4">
+            <Progress value={job ? ((job.total - job.pending) / Math.max(job.total, 1)) * 100 : 0} />
+            <p className="text-sm text-muted-foreground">
+              {!job
+                ? "Queuing messages..."
+                : job.done
+                  ? `Finished: ${job.sent} sent`
+                  : `Sending: ${job.sent} of ${job.total} sent`}
+              {job && job.failed > 0 && `, ${job.failed} failed`}
+              {job && job.suppressed > 0 && `, ${job.suppressed} opted out`}
+            </p>
+            <Button className="w-full" variant={job?.done ? "default" : "outline"} onClick={() => handleOpenChange(false)}>
+              {job?.done ? "Done" : "Close (messages keep sending)"}
+            </Button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              This message will be sent to all {memberCount} members of {loopName}.
+            </p>
+            <Textarea
+              {...register("message", { required: true })}
+              placeholder="Type your message here..."
+              className="min-h-[100px]"
+            />
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Sending...
+                </>
+              ) : (
+                "Send Message"
+              )}
+            </Button>
+          </form>
+        )}
       </DialogContent>
     </Dialog>
   );
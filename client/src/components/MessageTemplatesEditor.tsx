@@ -0,0 +1,160 @@
+import { useState, useCallback } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+import { countSegments } from "@/lib/sms";
+
+interface MessageTemplate {
+  key: string;
+  body: string;
+  defaultBody: string;
+  isCustom: boolean;
+  variables: string[];
+}
+
+const TEMPLATE_LABELS: Record<string, { title: string; description: string }> = {
+  welcome: { title: "Welcome", description: "Sent when someone is added to the loop." },
+  reminder: { title: "First reminder", description: "The first nudge of each newsletter cycle." },
+  followUp: { title: "Follow-up reminder", description: "Later nudges to members who still haven't shared." },
+  lastCall: { title: "Last call", description: "The final nudge before the newsletter is drafted." },
+  thanks: { title: "Thank-you", description: "Sent to members who already shared, if thank-yous are on." },
+  newsletter: { title: "Newsletter link", description: "Sent with the link when a newsletter goes out." },
+};
+
+// Example values for the live preview
+const SAMPLE_VARIABLES: Record<string, string> = {
+  firstName: "Alex",
+  inviterName: "Jordan Lee",
+  deadline: "Friday, Oct 23 at 9:00 AM",
+  newsletterUrl: `${window.location.origin}/newsletters/abc123`,
+};
+
+function renderPreview(body: string, variables: Record<string, string>) {
+  return body.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name) => variables[name] ?? match);
+}
+
+function TemplateCard({ loopId, loopName, loopCode, template }: {
+  loopId: number;
+  loopName: string;
+  loopCode: string | null;
+  template: MessageTemplate;
+}) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [body, setBody] = useState(template.body);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const preview = renderPreview(body, { ...SAMPLE_VARIABLES, loopName, loopCode: loopCode ?? loopName });
+  const { characters, segments, encoding } = countSegments(preview);
+  const label = TEMPLATE_LABELS[template.key] ?? { title: template.key, description: "" };
+
+  const save = useCallback(async (newBody: string | null) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/loops/${loopId}/templates/${template.key}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ body: newBody }),
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+
+      await queryClient.invalidateQueries({ queryKey: [`/api/loops/${loopId}/templates`] });
+      if (newBody === null) {
+        setBody(template.defaultBody);
+      }
+      toast({
+        title: "Success",
+        description: `${label.title} message saved`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save message",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }, [loopId, template.key, template.defaultBody, label.title, queryClient, toast]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <CardTitle className="text-base">{label.title}</CardTitle>
+          {template.isCustom && <Badge variant="secondary">Customized</Badge>}
+        </div>
+        <CardDescription>{label.description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          className="min-h-[100px]"
+        />
+        <p className="text-xs text-muted-foreground">
+          Variables: {template.variables.map((name) => `{{${name}}}`).join(", ")}
+        </p>
+        <div className="rounded-md bg-muted p-3">
+          <p className="text-xs font-medium text-muted-foreground mb-1">Preview</p>
+          <p className="text-sm whitespace-pre-wrap">{preview}</p>
+        </div>
+        <p className={`text-xs ${segments > 1 ? "text-orange-600" : "text-muted-foreground"}`}>
+          {characters} characters · {segments} SMS segment{segments === 1 ? "" : "s"} ({encoding})
+          {encoding === "UCS-2" && " — emoji and special characters shorten each segment to 70 characters"}
+        </p>
+        <div className="flex justify-end gap-2">
+          {template.isCustom && (
+            <Button variant="outline" size="sm" disabled={isSaving} onClick={() => save(null)}>
+              Reset to default
+            </Button>
+          )}
+          <Button size="sm" disabled={isSaving || body === template.body} onClick={() => save(body)}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function MessageTemplatesEditor({ loopId, loopName, loopCode }: {
+  loopId: number;
+  loopName: string;
+  loopCode: string | null;
+}) {
+  const { data: templates, isLoading } = useQuery<MessageTemplate[]>({
+    queryKey: [`/api/loops/${loopId}/templates`],
+  });
+
+  if (isLoading || !templates) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {templates.map((template) => (
+        <TemplateCard
+          key={template.key}
+          loopId={loopId}
+          loopName={loopName}
+          loopCode={loopCode}
+          template={template}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { Check, Lightbulb, Loader2, Sparkles, X } from "lucide-react";
+
+export interface NewsletterSuggestion {
+  summary: string;
+  sectionHeading: string | null;
+  instruction: string;
+}
+
+async function postJson<T>(url: string): Promise<T> {
+  const response = await fetch(url, {
+    method: "POST",
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    throw new Error(await response.text());
+  }
+
+  return response.json();
+}
+
+// Themes in a draft's updates and suggestions for improving it. Applying a
+// suggestion rewrites the section it names; the admin still saves the result.
+export function NewsletterAssistant({ loopId, newsletterId, isDraft, canApply, onApply }: {
+  loopId: string;
+  newsletterId: string;
+  isDraft: boolean;
+  // Whether the draft still has a section with this heading
+  canApply: (suggestion: NewsletterSuggestion) => boolean;
+  onApply: (suggestion: NewsletterSuggestion) => void;
+}) {
+  const { toast } = useToast();
+  const [suggestions, setSuggestions] = useState<NewsletterSuggestion[] | null>(null);
+
+  const showError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || "The assistant couldn't finish",
+      variant: "destructive",
+    });
+  };
+
+  const highlightsMutation = useMutation({
+    mutationFn: () => postJson<{ highlights: string[] }>(`/api/loops/${loopId}/newsletters/${newsletterId}/highlights`),
+    onError: showError,
+  });
+
+  const suggestionsMutation = useMutation({
+    mutationFn: () => postJson<{ suggestions: NewsletterSuggestion[] }>(`/api/loops/${loopId}/newsletters/${newsletterId}/suggestions`),
+    onSuccess: (data) => setSuggestions(data.suggestions),
+    onError: showError,
+  });
+
+  const dismiss = (suggestion: NewsletterSuggestion) => {
+    setSuggestions((current) => current?.filter((other) => other !== suggestion) ?? null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>AI Assistant</CardTitle>
+        <CardDescription>
+          Themes from this issue's updates, and suggestions based on the last saved version of the draft.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="font-medium">Themes</h3>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => highlightsMutation.mutate()}
+              disabled={highlightsMutation.isPending}
+            >
+              {highlightsMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Lightbulb className="mr-2 h-4 w-4" />
+              )}
+              {highlightsMutation.data ? "Find again" : "Find themes"}
+            </Button>
+          </div>
+          {highlightsMutation.data && (
+            highlightsMutation.data.highlights.length ? (
+              <ul className="list-disc pl-5 space-y-1 text-sm">
+                {highlightsMutation.data.highlights.map((highlight, index) => (
+                  <li key={index}>{highlight}</li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-muted-foreground">No themes stood out.</p>
+            )
+          )}
+        </div>
+
+        {isDraft && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="font-medium">Suggestions</h3>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => suggestionsMutation.mutate()}
+                disabled={suggestionsMutation.isPending}
+              >
+                {suggestionsMutation.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Sparkles className="mr-2 h-4 w-4" />
+                )}
+                {suggestions ? "Review again" : "Review draft"}
+              </Button>
+            </div>
+            {suggestions?.length === 0 && (
+              <p className="text-sm text-muted-foreground">No suggestions left.</p>
+            )}
+            {suggestions?.map((suggestion, index) => (
+              <div key={index} className="p-3 bg-muted/50 rounded-lg space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <p className="text-sm">{suggestion.summary}</p>
+                  {suggestion.sectionHeading && (
+                    <Badge variant="outline" className="shrink-0">{suggestion.sectionHeading}</Badge>
+                  )}
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button variant="ghost" size="sm" onClick={() => dismiss(suggestion)}>
+                    <X className="mr-1 h-4 w-4" />
+                    Dismiss
+                  </Button>
+                  <Button
+                    size="sm"
+                    disabled={!canApply(suggestion)}
+                    title={canApply(suggestion) ? undefined : "This suggestion isn't tied to a section of the draft"}
+                    onClick={() => {
+                      onApply(suggestion);
+                      dismiss(suggestion);
+                    }}
+                  >
+                    <Check className="mr-1 h-4 w-4" />
+                    Apply
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,390 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  ArrowDown,
+  ArrowUp,
+  GripVertical,
+  Heading,
+  Image as ImageIcon,
+  Loader2,
+  Pilcrow,
+  Quote,
+  Sparkles,
+  Trash2,
+  UserRound,
+  X,
+} from "lucide-react";
+import {
+  HEADING_CLASSES,
+  createBlock,
+  newBlockId,
+  type NewsletterBlock,
+  type NewsletterBlockType,
+} from "@/lib/newsletter-blocks";
+
+// A photo members have sent to the loop
+export interface LoopMedia {
+  url: string;
+  userName: string;
+}
+
+const BLOCK_LABELS: Record<NewsletterBlockType, string> = {
+  heading: "Heading",
+  paragraph: "Paragraph",
+  quote: "Quote",
+  update: "Member update",
+  image: "Image",
+  html: "Custom HTML",
+};
+
+const ADD_BLOCK_BUTTONS: Array<{ type: NewsletterBlockType; icon: typeof Heading }> = [
+  { type: "heading", icon: Heading },
+  { type: "paragraph", icon: Pilcrow },
+  { type: "quote", icon: Quote },
+  { type: "update", icon: UserRound },
+];
+
+function MediaPicker({ media, onPick, children }: {
+  media: LoopMedia[];
+  onPick: (item: LoopMedia) => void;
+  children: React.ReactNode;
+}) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Choose a photo</DialogTitle>
+          <DialogDescription>Photos members have sent to this loop.</DialogDescription>
+        </DialogHeader>
+        {media.length === 0 ? (
+          <p className="text-center text-muted-foreground py-4">No photos have been shared yet</p>
+        ) : (
+          <div className="grid grid-cols-3 gap-3 max-h-[60vh] overflow-y-auto">
+            {media.map((item) => (
+              <button
+                key={item.url}
+                type="button"
+                className="rounded-lg overflow-hidden border hover:ring-2 hover:ring-primary text-left"
+                onClick={() => {
+                  onPick(item);
+                  setOpen(false);
+                }}
+              >
+                <img src={item.url} alt={`Shared by ${item.userName}`} className="w-full h-28 object-cover" loading="lazy" />
+                <p className="text-xs p-1 truncate">{item.userName}</p>
+              </button>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Asks the AI for a new version of a section or paragraph, with an optional instruction
+function RewriteButton({ isRewriting, onRewrite }: {
+  isRewriting: boolean;
+  onRewrite: (instruction: string) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [instruction, setInstruction] = useState("");
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-7" disabled={isRewriting}>
+          {isRewriting ? (
+            <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+          ) : (
+            <Sparkles className="mr-1 h-4 w-4" />
+          )}
+          Rewrite
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-2">
+        <Input
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          placeholder='Optional, e.g. "make this funnier" or "shorter"'
+          maxLength={500}
+        />
+        <Button
+          size="sm"
+          className="w-full"
+          onClick={() => {
+            onRewrite(instruction);
+            setInstruction("");
+            setOpen(false);
+          }}
+        >
+          Rewrite
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function BlockFields({ block, media, onChange }: {
+  block: NewsletterBlock;
+  media: LoopMedia[];
+  onChange: (block: NewsletterBlock) => void;
+}) {
+  switch (block.type) {
+    case "heading":
+      return (
+        <div className="flex gap-2">
+          <Select
+            value={block.level.toString()}
+            onValueChange={(value) => {
+              const level = Number(value) as 1 | 2 | 3;
+              onChange({ ...block, level, className: HEADING_CLASSES[level] });
+            }}
+          >
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="1">Title</SelectItem>
+              <SelectItem value="2">Section</SelectItem>
+              <SelectItem value="3">Subsection</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            value={block.text}
+            onChange={(e) => onChange({ ...block, text: e.target.value })}
+            placeholder="Heading"
+            className={block.level === 1 ? "font-bold text-lg" : "font-semibold"}
+          />
+        </div>
+      );
+    case "paragraph":
+      return (
+        <Textarea
+          value={block.text}
+          onChange={(e) => onChange({ ...block, text: e.target.value })}
+          placeholder="Write something..."
+        />
+      );
+    case "quote":
+      return (
+        <div className="space-y-2">
+          <Textarea
+            value={block.text}
+            onChange={(e) => onChange({ ...block, text: e.target.value })}
+            placeholder="Quote"
+            className="italic"
+          />
+          <Input
+            value={block.attribution}
+            onChange={(e) => onChange({ ...block, attribution: e.target.value })}
+            placeholder="Who said it"
+          />
+        </div>
+      );
+    case "update":
+      return (
+        <div className="space-y-2">
+          <Input
+            value={block.userName}
+            onChange={(e) => onChange({ ...block, userName: e.target.value })}
+            placeholder="Member name"
+            className="font-semibold"
+          />
+          <Textarea
+            value={block.text}
+            onChange={(e) => onChange({ ...block, text: e.target.value })}
+            placeholder="Their update"
+          />
+          <div className="flex flex-wrap gap-2">
+            {block.mediaUrls.map((url) => (
+              <div key={url} className="relative">
+                <img src={url} alt="" className="h-20 w-20 object-cover rounded-md" />
+                <button
+                  type="button"
+                  className="absolute -top-2 -right-2 rounded-full bg-destructive text-destructive-foreground p-0.5"
+                  onClick={() => onChange({ ...block, mediaUrls: block.mediaUrls.filter((other) => other !== url) })}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            ))}
+            <MediaPicker
+              media={media}
+              onPick={(item) => onChange({ ...block, mediaUrls: [...block.mediaUrls, item.url] })}
+            >
+              <Button variant="outline" size="sm" className="h-20">
+                <ImageIcon className="mr-2 h-4 w-4" />
+                Add photo
+              </Button>
+            </MediaPicker>
+          </div>
+        </div>
+      );
+    case "image":
+      return (
+        <div className="flex gap-4 items-start">
+          {block.url ? (
+            <img src={block.url} alt={block.alt} className="h-24 w-24 object-cover rounded-md" />
+          ) : (
+            <div className="h-24 w-24 rounded-md bg-muted" />
+          )}
+          <div className="flex-1 space-y-2">
+            <Input
+              value={block.alt}
+              onChange={(e) => onChange({ ...block, alt: e.target.value })}
+              placeholder="Description"
+            />
+            <MediaPicker
+              media={media}
+              onPick={(item) => onChange({ ...block, url: item.url, alt: block.alt || `Shared by ${item.userName}` })}
+            >
+              <Button variant="outline" size="sm">
+                {block.url ? "Change photo" : "Choose photo"}
+              </Button>
+            </MediaPicker>
+          </div>
+        </div>
+      );
+    case "html":
+      return (
+        <Textarea
+          value={block.html}
+          onChange={(e) => onChange({ ...block, html: e.target.value })}
+          className="font-mono text-xs min-h-[100px]"
+        />
+      );
+  }
+}
+
+export function NewsletterBlockEditor({ blocks, media, onChange, onRewrite, rewritingId }: {
+  blocks: NewsletterBlock[];
+  media: LoopMedia[];
+  onChange: (blocks: NewsletterBlock[]) => void;
+  // Rewrites a section (from its heading) or a paragraph
+  onRewrite?: (blockId: string, instruction: string) => void;
+  rewritingId?: string | null;
+}) {
+  // Blocks are only draggable by their handle, so text in them can still be selected
+  const [grabIndex, setGrabIndex] = useState<number | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const updateBlock = (index: number, block: NewsletterBlock) => {
+    onChange(blocks.map((other, i) => (i === index ? block : other)));
+  };
+
+  const moveBlock = (from: number, to: number) => {
+    if (to < 0 || to >= blocks.length || from === to) {
+      return;
+    }
+    const next = [...blocks];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      {blocks.map((block, index) => (
+        <Card
+          key={block.id}
+          draggable={grabIndex === index}
+          onDragStart={(e) => {
+            setDragIndex(index);
+            e.dataTransfer.effectAllowed = "move";
+          }}
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={(e) => {
+            e.preventDefault();
+            if (dragIndex !== null) {
+              moveBlock(dragIndex, index);
+            }
+            setDragIndex(null);
+          }}
+          onDragEnd={() => {
+            setDragIndex(null);
+            setGrabIndex(null);
+          }}
+          className={dragIndex === index ? "opacity-50" : undefined}
+        >
+          <CardContent className="p-3 space-y-2">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                <GripVertical
+                  className="h-4 w-4 cursor-grab"
+                  onMouseDown={() => setGrabIndex(index)}
+                  onMouseUp={() => setGrabIndex(null)}
+                />
+                {BLOCK_LABELS[block.type]}
+              </div>
+              <div className="flex gap-1">
+                {onRewrite && (block.type === "paragraph" || (block.type === "heading" && block.level <= 2)) && (
+                  <RewriteButton
+                    isRewriting={rewritingId === block.id}
+                    onRewrite={(instruction) => onRewrite(block.id, instruction)}
+                  />
+                )}
+                <Button variant="ghost" size="icon" className="h-7 w-7" disabled={index === 0} onClick={() => moveBlock(index, index - 1)}>
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-7 w-7" disabled={index === blocks.length - 1} onClick={() => moveBlock(index, index + 1)}>
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onChange(blocks.filter((_, i) => i !== index))}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+            <BlockFields block={block} media={media} onChange={(updated) => updateBlock(index, updated)} />
+          </CardContent>
+        </Card>
+      ))}
+
+      {blocks.length === 0 && (
+        <p className="text-center text-muted-foreground py-4">This newsletter is empty. Add a block to get started.</p>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {ADD_BLOCK_BUTTONS.map(({ type, icon: Icon }) => (
+          <Button key={type} variant="outline" size="sm" onClick={() => onChange([...blocks, createBlock(type)])}>
+            <Icon className="mr-2 h-4 w-4" />
+            {BLOCK_LABELS[type]}
+          </Button>
+        ))}
+        <MediaPicker
+          media={media}
+          onPick={(item) => onChange([
+            ...blocks,
+            { id: newBlockId(), type: "image", url: item.url, alt: `Shared by ${item.userName}` },
+          ])}
+        >
+          <Button variant="outline" size="sm">
+            <ImageIcon className="mr-2 h-4 w-4" />
+            {BLOCK_LABELS.image}
+          </Button>
+        </MediaPicker>
+      </div>
+    </div>
+  );
+}
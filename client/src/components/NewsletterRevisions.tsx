@@ -0,0 +1,233 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { diffLines } from "diff";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, RotateCcw } from "lucide-react";
+
+interface Revision {
+  id: number;
+  source: "generated" | "edit" | "restore";
+  restoredFromId: number | null;
+  createdAt: string;
+  author: {
+    id: number;
+    firstName: string;
+    lastName: string;
+  } | null;
+}
+
+interface RevisionWithContent extends Revision {
+  content: string;
+}
+
+const SOURCE_LABELS: Record<Revision["source"], string> = {
+  generated: "Generated",
+  edit: "Edited",
+  restore: "Restored",
+};
+
+function describeRevision(revision: Revision) {
+  const author = revision.author ? `${revision.author.firstName} ${revision.author.lastName}` : "Scheduler";
+  return `${format(new Date(revision.createdAt), "PPp")} · ${SOURCE_LABELS[revision.source]} by ${author}`;
+}
+
+function RevisionDiff({ before, after }: { before: string; after: string }) {
+  const changes = diffLines(before, after);
+
+  if (changes.every((change) => !change.added && !change.removed)) {
+    return <p className="text-sm text-muted-foreground">These revisions are identical.</p>;
+  }
+
+  return (
+    <pre className="text-xs font-mono whitespace-pre-wrap break-all rounded-md border max-h-[500px] overflow-auto">
+      {changes.map((change, index) => (
+        <span
+          key={index}
+          className={
+            change.added
+              ? "block bg-green-100 text-green-900"
+              : change.removed
+                ? "block bg-red-100 text-red-900 line-through"
+                : "block text-muted-foreground"
+          }
+        >
+          {change.value}
+        </span>
+      ))}
+    </pre>
+  );
+}
+
+export function NewsletterRevisions({ loopId, newsletterId }: {
+  loopId: string;
+  newsletterId: string;
+}) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const revisionsUrl = `/api/loops/${loopId}/newsletters/${newsletterId}/revisions`;
+
+  const { data: revisions, isLoading } = useQuery<Revision[]>({
+    queryKey: [revisionsUrl],
+  });
+
+  // Compare the latest revision with the one before it unless the admin picks others
+  const [fromId, setFromId] = useState<number | null>(null);
+  const [toId, setToId] = useState<number | null>(null);
+  useEffect(() => {
+    if (revisions?.length) {
+      setToId(revisions[0].id);
+      setFromId((revisions[1] ?? revisions[0]).id);
+    }
+  }, [revisions]);
+
+  const { data: fromRevision } = useQuery<RevisionWithContent>({
+    queryKey: [`${revisionsUrl}/${fromId}`],
+    enabled: fromId !== null,
+  });
+  const { data: toRevision } = useQuery<RevisionWithContent>({
+    queryKey: [`${revisionsUrl}/${toId}`],
+    enabled: toId !== null,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revisionId: number) => {
+      const response = await fetch(`${revisionsUrl}/${revisionId}/restore`, {
+        method: "POST",
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [revisionsUrl] });
+      queryClient.invalidateQueries({ queryKey: [`/api/loops/${loopId}/newsletters/${newsletterId}/preview`] });
+      toast({
+        title: "Revision restored",
+        description: "The draft now has that revision's content.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to restore revision",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Revision History</CardTitle>
+        <CardDescription>
+          Every generation, save and restore of this newsletter. Restoring adds a new revision, so nothing is lost.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading && (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        )}
+
+        {revisions && revisions.length === 0 && (
+          <p className="text-center text-muted-foreground py-4">No revisions yet</p>
+        )}
+
+        {revisions && revisions.length > 0 && (
+          <>
+            <div className="space-y-2">
+              {revisions.map((revision, index) => (
+                <div
+                  key={revision.id}
+                  className="flex items-center justify-between p-3 bg-muted/50 rounded-lg"
+                >
+                  <div className="flex items-center gap-2 text-sm">
+                    {index === 0 && <Badge>Current</Badge>}
+                    <span>{describeRevision(revision)}</span>
+                  </div>
+                  {index > 0 && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={restoreMutation.isPending}
+                      onClick={() => restoreMutation.mutate(revision.id)}
+                    >
+                      <RotateCcw className="mr-2 h-4 w-4" />
+                      Restore
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Compare</Label>
+                  <Select
+                    value={fromId?.toString()}
+                    onValueChange={(value) => setFromId(parseInt(value))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Older revision" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {revisions.map((revision) => (
+                        <SelectItem key={revision.id} value={revision.id.toString()}>
+                          {describeRevision(revision)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>With</Label>
+                  <Select
+                    value={toId?.toString()}
+                    onValueChange={(value) => setToId(parseInt(value))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Newer revision" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {revisions.map((revision) => (
+                        <SelectItem key={revision.id} value={revision.id.toString()}>
+                          {describeRevision(revision)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {fromRevision && toRevision ? (
+                <RevisionDiff before={fromRevision.content} after={toRevision.content} />
+              ) : (
+                <div className="flex justify-center py-4">
+                  <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
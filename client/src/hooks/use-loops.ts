@@ -5,6 +5,9 @@ interface LoopWithRelations extends Loop {
   members: (LoopMember & { user: User })[];
   updates: (Update & { user: User })[];
   newsletters: Newsletter[];
+  nextIssueAt?: string;
+  nextReminderAt?: string | null;
+  llmProviders?: string[];
 }
 
 export function useLoops() {
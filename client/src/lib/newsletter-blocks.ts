@@ -0,0 +1,312 @@
+// The visual editor works on blocks parsed out of the stored newsletter HTML
+// and writes them back with the same markup the server's renderer produces.
+// Anything it doesn't recognize is kept as an HTML block, so content always
+// round-trips.
+
+export type NewsletterBlock =
+  | { id: string; type: "heading"; level: 1 | 2 | 3; text: string; className: string }
+  | { id: string; type: "paragraph"; text: string; className: string }
+  | { id: string; type: "quote"; text: string; attribution: string }
+  | { id: string; type: "update"; userName: string; text: string; mediaUrls: string[] }
+  | { id: string; type: "image"; url: string; alt: string }
+  | { id: string; type: "html"; html: string };
+
+export type NewsletterBlockType = NewsletterBlock["type"];
+
+// The newsletter around the editable part (header, editor's note, footer),
+// with a marker where the blocks go
+export interface ParsedNewsletter {
+  shell: string;
+  blocks: NewsletterBlock[];
+}
+
+const BLOCKS_MARKER = "<!--newsletter-blocks-->";
+
+export const HEADING_CLASSES: Record<1 | 2 | 3, string> = {
+  1: "text-4xl font-bold text-center mb-8",
+  2: "text-2xl font-bold mt-8 mb-4",
+  3: "text-xl font-semibold mt-6 mb-3",
+};
+
+const QUOTE_CLASS = "border-l-4 border-primary pl-4 my-4 italic";
+const IMAGE_CLASS = "rounded-lg shadow-md max-w-[250px] w-full h-auto mx-auto";
+
+let nextBlockId = 0;
+export function newBlockId() {
+  nextBlockId += 1;
+  return `block-${nextBlockId}`;
+}
+
+export function createBlock(type: NewsletterBlockType): NewsletterBlock {
+  const id = newBlockId();
+  switch (type) {
+    case "heading":
+      return { id, type, level: 2, text: "", className: HEADING_CLASSES[2] };
+    case "paragraph":
+      return { id, type, text: "", className: "" };
+    case "quote":
+      return { id, type, text: "", attribution: "" };
+    case "update":
+      return { id, type, userName: "", text: "", mediaUrls: [] };
+    case "image":
+      return { id, type, url: "", alt: "" };
+    case "html":
+      return { id, type, html: "" };
+  }
+}
+
+// Text of an element whose only children are text and <br>s, or null if it has other markup
+function plainText(element: Element): string | null {
+  let text = "";
+  for (const node of Array.from(element.childNodes)) {
+    if (node.nodeType === Node.TEXT_NODE) {
+      text += node.nodeValue ?? "";
+    } else if (node.nodeName === "BR") {
+      text += "\n";
+    } else if (node.nodeType !== Node.COMMENT_NODE) {
+      return null;
+    }
+  }
+  return text.replace(/[ \t]*\n[ \t]*/g, "\n").trim();
+}
+
+function parseQuote(element: Element): NewsletterBlock | null {
+  const footer = Array.from(element.children).find((child) => child.tagName === "FOOTER");
+  if (Array.from(element.children).some((child) => child !== footer && child.tagName !== "BR")) {
+    return null;
+  }
+
+  const body = element.cloneNode(true) as Element;
+  body.querySelector(":scope > footer")?.remove();
+  const text = plainText(body);
+  if (text === null) {
+    return null;
+  }
+
+  return {
+    id: newBlockId(),
+    type: "quote",
+    text,
+    attribution: footer?.textContent?.replace(/^\s*—\s*/, "").trim() ?? "",
+  };
+}
+
+function parseUpdate(element: Element): NewsletterBlock {
+  const content = element.querySelector(".update-content");
+  const paragraphs = content ? Array.from(content.querySelectorAll("p")) : [];
+
+  return {
+    id: newBlockId(),
+    type: "update",
+    userName: element.getAttribute("data-member")
+      ?? element.querySelector(":scope > p")?.textContent?.trim()
+      ?? "",
+    text: paragraphs.length
+      ? paragraphs.map((p) => plainText(p) ?? p.textContent?.trim() ?? "").join("\n\n")
+      : content?.textContent?.trim() ?? "",
+    mediaUrls: Array.from(element.querySelectorAll("img"))
+      .map((img) => img.getAttribute("src"))
+      .filter((src): src is string => !!src),
+  };
+}
+
+function parseElement(element: Element): NewsletterBlock[] {
+  const tag = element.tagName;
+  const className = element.getAttribute("class") ?? "";
+
+  // Plain sections only group blocks; styled ones (sign-off...) are kept whole
+  if (tag === "SECTION" && !className) {
+    return parseChildren(element);
+  }
+
+  if (tag === "H1" || tag === "H2" || tag === "H3") {
+    const text = plainText(element);
+    if (text !== null) {
+      const level = Number(tag[1]) as 1 | 2 | 3;
+      return [{ id: newBlockId(), type: "heading", level, text, className }];
+    }
+  }
+
+  if (tag === "P") {
+    const text = plainText(element);
+    if (text !== null) {
+      return [{ id: newBlockId(), type: "paragraph", text, className }];
+    }
+  }
+
+  if (tag === "BLOCKQUOTE") {
+    const quote = parseQuote(element);
+    if (quote) {
+      return [quote];
+    }
+  }
+
+  if (tag === "DIV" && element.classList.contains("update-details")) {
+    return [parseUpdate(element)];
+  }
+
+  if (tag === "FIGURE" && element.children.length === 1 && element.children[0].tagName === "IMG") {
+    const img = element.children[0];
+    return [{
+      id: newBlockId(),
+      type: "image",
+      url: img.getAttribute("src") ?? "",
+      alt: img.getAttribute("alt") ?? "",
+    }];
+  }
+
+  return [{ id: newBlockId(), type: "html", html: element.outerHTML }];
+}
+
+function parseChildren(container: Element): NewsletterBlock[] {
+  return Array.from(container.childNodes).flatMap((node): NewsletterBlock[] => {
+    if (node.nodeType === Node.ELEMENT_NODE) {
+      return parseElement(node as Element);
+    }
+    const text = node.nodeType === Node.TEXT_NODE ? node.nodeValue?.trim() : "";
+    return text ? [{ id: newBlockId(), type: "paragraph", text, className: "" }] : [];
+  });
+}
+
+export function parseNewsletter(html: string): ParsedNewsletter {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  // Generated newsletters keep their content in the <article>; anything else is all content
+  const container = doc.querySelector("article") ?? doc.body;
+  const blocks = parseChildren(container);
+  container.innerHTML = BLOCKS_MARKER;
+  return { shell: doc.body.innerHTML, blocks };
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function classAttr(className: string) {
+  return className ? ` class="${escapeHtml(className)}"` : "";
+}
+
+// One paragraph per blank-line-separated block, like the server renderer
+function toParagraphs(text: string, className = "") {
+  return text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .map((paragraph) => `<p${classAttr(className)}>${escapeHtml(paragraph).replace(/\n/g, "<br />")}</p>`)
+    .join("\n");
+}
+
+function imageHtml(url: string, alt: string) {
+  return `<figure class="my-4">
+  <img src="${escapeHtml(url)}"
+       alt="${escapeHtml(alt)}"
+       class="${IMAGE_CLASS}"
+       loading="lazy" />
+</figure>`;
+}
+
+export function blockToHtml(block: NewsletterBlock): string {
+  switch (block.type) {
+    case "heading":
+      return `<h${block.level}${classAttr(block.className)}>${escapeHtml(block.text)}</h${block.level}>`;
+    case "paragraph":
+      return toParagraphs(block.text, block.className);
+    case "quote":
+      return `<blockquote class="${QUOTE_CLASS}">
+  ${escapeHtml(block.text).replace(/\n/g, "<br />")}
+  ${block.attribution ? `<footer class="not-italic text-sm text-gray-500 mt-1">— ${escapeHtml(block.attribution)}</footer>` : ""}
+</blockquote>`;
+    case "update": {
+      const userName = escapeHtml(block.userName);
+      return `<div class="update-details" data-member="${userName}">
+  <p class="font-semibold">${userName}</p>
+  <div class="update-content mb-4">
+    ${toParagraphs(block.text)}
+  </div>
+  ${block.mediaUrls.map((url, index) => imageHtml(url, `Update from ${block.userName} - Media ${index + 1}`)).join("\n")}
+</div>`;
+    }
+    case "image":
+      return block.url ? imageHtml(block.url, block.alt) : "";
+    case "html":
+      return block.html;
+  }
+}
+
+export function serializeNewsletter({ shell, blocks }: ParsedNewsletter): string {
+  const html = `\n${blocks.map(blockToHtml).filter(Boolean).join("\n")}\n`;
+  return shell.includes(BLOCKS_MARKER) ? shell.replace(BLOCKS_MARKER, () => html) : shell + html;
+}
+
+// What a rewrite replaces: a section's heading and the paragraphs straight
+// after it, or a single paragraph. The server reads their saved text itself,
+// along with the member updates in the surrounding section.
+export interface RewriteTarget {
+  headingId: string | null;
+  bodyIds: string[];
+}
+
+export function getRewriteTarget(blocks: NewsletterBlock[], blockId: string): RewriteTarget | null {
+  const index = blocks.findIndex((block) => block.id === blockId);
+  const block = blocks[index];
+  if (!block || (block.type !== "heading" && block.type !== "paragraph")) {
+    return null;
+  }
+
+  if (block.type === "paragraph") {
+    return { headingId: null, bodyIds: [block.id] };
+  }
+
+  const bodyIds: string[] = [];
+  for (const other of blocks.slice(index + 1)) {
+    if (other.type !== "paragraph") {
+      break;
+    }
+    bodyIds.push(other.id);
+  }
+
+  return { headingId: block.id, bodyIds };
+}
+
+// Put rewritten text in place of the target, leaving every other block as it is
+export function applyRewrite(
+  blocks: NewsletterBlock[],
+  target: RewriteTarget,
+  rewrite: { heading: string; body: string }
+): NewsletterBlock[] {
+  const firstBody = blocks.find((block) => block.id === target.bodyIds[0]);
+  const paragraph: NewsletterBlock = {
+    id: newBlockId(),
+    type: "paragraph",
+    text: rewrite.body.trim(),
+    className: firstBody?.type === "paragraph" ? firstBody.className : "",
+  };
+
+  const next: NewsletterBlock[] = [];
+  let placed = false;
+  for (const block of blocks) {
+    if (target.bodyIds.includes(block.id)) {
+      if (!placed && paragraph.text) {
+        next.push(paragraph);
+      }
+      placed = true;
+      continue;
+    }
+
+    if (block.id === target.headingId && block.type === "heading") {
+      next.push({ ...block, text: rewrite.heading.trim() || block.text });
+      // A section with no body yet gets one right under its heading
+      if (!target.bodyIds.length && paragraph.text) {
+        next.push(paragraph);
+        placed = true;
+      }
+      continue;
+    }
+
+    next.push(block);
+  }
+  return next;
+}
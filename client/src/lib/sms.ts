@@ -0,0 +1,35 @@
+// Characters in the GSM 03.38 alphabet; anything else (emoji, curly quotes...)
+// forces the whole message into UCS-2, which fits far fewer characters
+const GSM_BASIC =
+  "@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !\"#¤%&'()*+,-./0123456789:;<=>?" +
+  "¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà";
+// These count as two characters (escape + char)
+const GSM_EXTENDED = "^{}\\[~]|€\f";
+
+export interface SegmentInfo {
+  encoding: "GSM-7" | "UCS-2";
+  characters: number;
+  segments: number;
+}
+
+export function countSegments(text: string): SegmentInfo {
+  const chars = Array.from(text);
+  const isGsm = chars.every((char) => GSM_BASIC.includes(char) || GSM_EXTENDED.includes(char));
+
+  if (isGsm) {
+    const characters = chars.reduce((total, char) => total + (GSM_EXTENDED.includes(char) ? 2 : 1), 0);
+    return {
+      encoding: "GSM-7",
+      characters,
+      segments: characters <= 160 ? 1 : Math.ceil(characters / 153),
+    };
+  }
+
+  // UCS-2 counts UTF-16 code units, so an emoji takes two
+  const characters = text.length;
+  return {
+    encoding: "UCS-2",
+    characters,
+    segments: characters <= 70 ? 1 : Math.ceil(characters / 67),
+  };
+}
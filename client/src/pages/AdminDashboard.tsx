@@ -41,6 +41,12 @@ interface Loop {
   lastNewsletter: string | null;
   createdAt: string;
   updateCount: number;
+  lastReminderRun: {
+    slot: string;
+    status: "running" | "completed" | "failed";
+    sentCount: number;
+  } | null;
+  nextReminderAt: string | null;
 }
 
 interface Stats {
@@ -254,6 +260,7 @@ export default function AdminDashboard() {
                 <TableHead>Members</TableHead>
                 <TableHead>Frequency</TableHead>
                 <TableHead>Last Newsletter</TableHead>
+                <TableHead>Reminders</TableHead>
                 <TableHead>Created</TableHead>
               </TableRow>
             </TableHeader>
@@ -279,6 +286,19 @@ export default function AdminDashboard() {
                       ? new Date(loop.lastNewsletter).toLocaleDateString()
                       : "Never"}
                   </TableCell>
+                  <TableCell>
+                    <span className="text-sm">
+                      Last: {loop.lastReminderRun
+                        ? `${new Date(loop.lastReminderRun.slot).toLocaleString()} (${loop.lastReminderRun.status})`
+                        : "Never"}
+                    </span>
+                    <br />
+                    <span className="text-sm text-muted-foreground">
+                      Next: {loop.nextReminderAt
+                        ? new Date(loop.nextReminderAt).toLocaleString()
+                        : "Not scheduled"}
+                    </span>
+                  </TableCell>
                   <TableCell>
                     {new Date(loop.createdAt).toLocaleDateString()}
                   </TableCell>
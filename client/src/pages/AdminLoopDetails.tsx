@@ -1,5 +1,5 @@
-import { useCallback } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useCallback, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useParams, useLocation } from "wouter";
 import {
   Card,
@@ -17,8 +17,13 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
 import { Loader2, ExternalLink } from "lucide-react";
 import { format } from "date-fns";
+import { formatInTimeZone } from "date-fns-tz";
 import { useToast } from "@/hooks/use-toast";
 import { BulkSMSDialog } from "@/components/BulkSMSDialog";
 import {useState} from "react";
@@ -43,6 +48,17 @@ interface LoopDetails {
     day: string;
     time: string;
   }>;
+  timezone: string;
+  newsletterHeader: string | null;
+  newsletterClosing: string | null;
+  nextReminderAt: string | null;
+  reminderRuns: Array<{
+    id: number;
+    slot: string;
+    status: "running" | "completed" | "failed";
+    sentCount: number;
+    error: string | null;
+  }>;
   creator: {
     firstName: string;
     lastName: string;
@@ -51,17 +67,20 @@ interface LoopDetails {
   members: Array<{
     id: number;
     user: {
+      id: number;
       firstName: string;
       lastName: string;
       email: string | null;
       phoneNumber: string;
     };
     context?: string;
+    optedOut: "all" | "loop" | null;
   }>;
   updates: Array<{
     id: number;
     content: string;
     mediaUrls: string[];
+    newsletterId: number | null;
     createdAt: string;
     user: {
       firstName: string;
@@ -74,24 +93,129 @@ interface LoopDetails {
     sentAt: string;
     urlId: string;
     status: "draft" | "sent";
+    deliveries: Delivery[];
+  }>;
+}
+
+interface IssuePeriod {
+  start: string | null;
+  updates: Array<{
+    id: number;
+    content: string;
+    mediaUrls: string[];
+    createdAt: string;
+    user: {
+      firstName: string;
+      lastName: string;
+    } | null;
   }>;
 }
 
+interface GenerationJobProgress {
+  id: number;
+  status: "queued" | "running" | "succeeded" | "failed";
+  total: number;
+  completed: number;
+  failed: number;
+  newsletterId: number | null;
+  error: string | null;
+  done: boolean;
+}
+
+interface Delivery {
+  id: number;
+  userId: number | null;
+  status: "queued" | "sending" | "pending" | "sent" | "delivered" | "undelivered" | "failed" | "suppressed";
+  error: string | null;
+  createdAt: string;
+}
+
+const DELIVERY_BADGE_VARIANTS: Record<Delivery["status"], "default" | "secondary" | "destructive" | "outline"> = {
+  queued: "outline",
+  sending: "outline",
+  pending: "outline",
+  sent: "secondary",
+  delivered: "default",
+  undelivered: "destructive",
+  failed: "destructive",
+  suppressed: "secondary",
+};
+
+// Statuses whose raw name doesn't say what happened
+const DELIVERY_LABELS: Partial<Record<Delivery["status"], string>> = {
+  queued: "deferred",
+  suppressed: "opted out",
+};
+
+// Deliveries arrive newest first; keep each member's latest attempt
+function latestDeliveryPerMember(deliveries: Delivery[]) {
+  const byUser = new Map<number, Delivery>();
+  for (const delivery of deliveries) {
+    if (delivery.userId !== null && !byUser.has(delivery.userId)) {
+      byUser.set(delivery.userId, delivery);
+    }
+  }
+  return byUser;
+}
+
 
 export default function AdminLoopDetails() {
   const { id } = useParams<{ id: string }>();
   const { toast } = useToast();
   const [, setLocation] = useLocation();
+  const queryClient = useQueryClient();
+
+  const [excludedUpdateIds, setExcludedUpdateIds] = useState<Set<number>>(new Set());
+  const [customHeader, setCustomHeader] = useState("");
+  const [customClosing, setCustomClosing] = useState("");
+  const [saveAsDefaults, setSaveAsDefaults] = useState(false);
+  const [generationJobId, setGenerationJobId] = useState<number | null>(null);
 
   const { data: loop, isLoading, error } = useQuery<LoopDetails>({
     queryKey: [`/api/admin/loops/${id}`],
     retry: false,
   });
 
+  // Start from the loop's saved editor's note and sign-off
+  useEffect(() => {
+    if (loop) {
+      setCustomHeader(loop.newsletterHeader ?? "");
+      setCustomClosing(loop.newsletterClosing ?? "");
+    }
+  }, [loop?.id, loop?.newsletterHeader, loop?.newsletterClosing]);
+
+  const { data: period } = useQuery<IssuePeriod>({
+    queryKey: [`/api/loops/${id}/period`],
+    retry: false,
+  });
+
+  const selectedUpdateIds = (period?.updates ?? [])
+    .map((update) => update.id)
+    .filter((updateId) => !excludedUpdateIds.has(updateId));
+
+  const toggleUpdate = useCallback((updateId: number, included: boolean) => {
+    setExcludedUpdateIds((current) => {
+      const next = new Set(current);
+      if (included) {
+        next.delete(updateId);
+      } else {
+        next.add(updateId);
+      }
+      return next;
+    });
+  }, []);
+
   const generateNewsletterMutation = useMutation({
     mutationFn: async () => {
       const response = await fetch(`/api/loops/${id}/newsletters/generate`, {
         method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          updateIds: selectedUpdateIds,
+          customHeader,
+          customClosing,
+          saveAsDefaults,
+        }),
         credentials: "include",
       });
 
@@ -99,27 +223,87 @@ export default function AdminLoopDetails() {
         throw new Error(await response.text());
       }
 
-      const data = await response.json();
+      return response.json() as Promise<GenerationJobProgress>;
+    },
+    onSuccess: (job) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/loops/${id}`] });
+      setGenerationJobId(job.id);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to generate newsletter",
+        variant: "destructive",
+      });
+    },
+  });
 
-      if (!data.newsletter || !data.newsletter.id) {
-        throw new Error("Invalid response format from server");
-      }
+  // Sections are generated in the background; poll until the job succeeds or fails
+  const { data: generationJob } = useQuery<GenerationJobProgress>({
+    queryKey: [`/api/admin/generation-jobs/${generationJobId}`],
+    enabled: generationJobId !== null,
+    refetchInterval: (query) => (query.state.data?.done ? false : 2000),
+  });
 
-      return data;
-    },
-    onSuccess: (data) => {
+  useEffect(() => {
+    if (generationJob?.status === "succeeded" && generationJob.newsletterId) {
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/loops/${id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/loops/${id}/period`] });
       toast({
         title: "Newsletter Generated",
         description: "The newsletter has been generated and saved as a draft.",
       });
-      if (data.newsletter?.id) {
-        setLocation(`/admin/loops/${id}/newsletters/${data.newsletter.id}`);
+      setLocation(`/admin/loops/${id}/newsletters/${generationJob.newsletterId}`);
+    }
+  }, [generationJob?.status, generationJob?.newsletterId]);
+
+  const retryGenerationMutation = useMutation({
+    mutationFn: async (jobId: number) => {
+      const response = await fetch(`/api/admin/generation-jobs/${jobId}/retry`, {
+        method: "POST",
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        throw new Error(await response.text());
       }
+
+      return response.json() as Promise<GenerationJobProgress>;
+    },
+    onSuccess: (job) => {
+      queryClient.setQueryData([`/api/admin/generation-jobs/${job.id}`], job);
     },
     onError: (error) => {
       toast({
         title: "Error",
-        description: error instanceof Error ? error.message : "Failed to generate newsletter",
+        description: error instanceof Error ? error.message : "Failed to retry generation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isGenerating = generateNewsletterMutation.isPending
+    || (generationJobId !== null && !generationJob?.done);
+
+  const highlightsMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/loops/${id}/period/highlights`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ updateIds: selectedUpdateIds }),
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+
+      return response.json() as Promise<{ highlights: string[] }>;
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to find themes",
         variant: "destructive",
       });
     },
@@ -152,6 +336,12 @@ export default function AdminLoopDetails() {
     );
   }
 
+  // Most recently sent newsletter, and each member's latest delivery attempt for it
+  const latestNewsletter = loop.newsletters
+    .filter((newsletter) => newsletter.status === "sent" && newsletter.sentAt)
+    .sort((a, b) => new Date(b.sentAt).getTime() - new Date(a.sentAt).getTime())[0];
+  const latestDeliveryByUser = latestDeliveryPerMember(latestNewsletter?.deliveries ?? []);
+
   return (
     <div className="container mx-auto p-4 space-y-6">
       <div className="flex justify-between items-center">
@@ -164,9 +354,9 @@ export default function AdminLoopDetails() {
           />
           <Button
             onClick={handleGenerateNewsletter}
-            disabled={generateNewsletterMutation.isPending}
+            disabled={isGenerating || selectedUpdateIds.length === 0}
           >
-            {generateNewsletterMutation.isPending ? (
+            {isGenerating ? (
               <>
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                 Generating...
@@ -178,6 +368,47 @@ export default function AdminLoopDetails() {
         </div>
       </div>
 
+      {/* Newsletter generation progress */}
+      {generationJobId !== null && (
+        <Card className={generationJob?.status === "failed" ? "border-destructive" : undefined}>
+          <CardHeader>
+            <CardTitle>Generating Newsletter</CardTitle>
+            <CardDescription>
+              {!generationJob || generationJob.status === "queued"
+                ? "Waiting to start..."
+                : generationJob.status === "succeeded"
+                  ? "Done. Opening the draft..."
+                  : `${generationJob.completed} of ${generationJob.total} sections written`}
+              {generationJob && generationJob.failed > 0 && `, ${generationJob.failed} failed`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Progress value={generationJob ? (generationJob.completed / Math.max(generationJob.total, 1)) * 100 : 0} />
+            {generationJob?.status === "failed" && (
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-sm text-destructive">{generationJob.error}</p>
+                <div className="flex gap-2">
+                  <Button variant="ghost" size="sm" onClick={() => setGenerationJobId(null)}>
+                    Dismiss
+                  </Button>
+                  {/* Without failed sections it failed putting the draft together; generating again is the fix */}
+                  {generationJob.failed > 0 && (
+                    <Button
+                      size="sm"
+                      onClick={() => retryGenerationMutation.mutate(generationJob.id)}
+                      disabled={retryGenerationMutation.isPending}
+                    >
+                      {retryGenerationMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Retry failed sections
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Loop Info */}
       <Card>
         <CardHeader>
@@ -203,6 +434,31 @@ export default function AdminLoopDetails() {
                 <dd>{loop.context}</dd>
               </div>
             )}
+            <div>
+              <dt className="font-medium text-muted-foreground">Next Reminder</dt>
+              <dd>
+                {loop.nextReminderAt
+                  ? formatInTimeZone(new Date(loop.nextReminderAt), loop.timezone, "PPp zzz")
+                  : "Not scheduled"}
+              </dd>
+            </div>
+            <div>
+              <dt className="font-medium text-muted-foreground">Recent Reminder Runs</dt>
+              <dd>
+                {loop.reminderRuns.length === 0 && "None yet"}
+                <ul className="space-y-1">
+                  {loop.reminderRuns.map((run) => (
+                    <li key={run.id} className="text-sm flex items-center gap-2" title={run.error ?? undefined}>
+                      {formatInTimeZone(new Date(run.slot), loop.timezone, "PPp")}
+                      <Badge variant={run.status === "failed" ? "destructive" : run.status === "running" ? "outline" : "secondary"}>
+                        {run.status}
+                      </Badge>
+                      <span className="text-muted-foreground">{run.sentCount} sent</span>
+                    </li>
+                  ))}
+                </ul>
+              </dd>
+            </div>
           </dl>
         </CardContent>
       </Card>
@@ -221,6 +477,7 @@ export default function AdminLoopDetails() {
                 <TableHead>Email</TableHead>
                 <TableHead>Phone</TableHead>
                 <TableHead>Context</TableHead>
+                <TableHead>Latest Newsletter</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
@@ -228,10 +485,33 @@ export default function AdminLoopDetails() {
                 <TableRow key={member.id}>
                   <TableCell>
                     {member.user.firstName} {member.user.lastName}
+                    {member.optedOut && (
+                      <Badge variant="destructive" className="ml-2">
+                        {member.optedOut === "all" ? "Opted out of all SMS" : "Opted out of this loop"}
+                      </Badge>
+                    )}
                   </TableCell>
                   <TableCell>{member.user.email || "—"}</TableCell>
                   <TableCell>{member.user.phoneNumber}</TableCell>
                   <TableCell>{member.context || "—"}</TableCell>
+                  <TableCell>
+                    {(() => {
+                      const delivery = latestDeliveryByUser.get(member.user.id);
+                      if (!latestNewsletter) return "—";
+                      if (!delivery) {
+                        return <Badge variant="destructive">Not sent</Badge>;
+                      }
+                      return (
+                        <Badge
+                          variant={DELIVERY_BADGE_VARIANTS[delivery.status]}
+                          title={delivery.error ?? undefined}
+                          className="capitalize"
+                        >
+                          {DELIVERY_LABELS[delivery.status] ?? delivery.status}
+                        </Badge>
+                      );
+                    })()}
+                  </TableCell>
                 </TableRow>
               ))}
             </TableBody>
@@ -239,6 +519,107 @@ export default function AdminLoopDetails() {
         </CardContent>
       </Card>
 
+      {/* Next issue */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Next Issue</CardTitle>
+          <CardDescription>
+            {period?.start
+              ? `Unpublished updates since the last newsletter on ${format(new Date(period.start), "PPp")}.`
+              : "Unpublished updates since the loop started."}{" "}
+            {selectedUpdateIds.length} of {period?.updates.length ?? 0} selected for the next newsletter.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <div className="flex items-start justify-between gap-4 pb-2">
+            {highlightsMutation.data ? (
+              <div className="space-y-1">
+                <p className="text-sm font-medium">Themes in these updates</p>
+                <ul className="list-disc pl-5 text-sm space-y-1">
+                  {highlightsMutation.data.highlights.map((highlight, index) => (
+                    <li key={index}>{highlight}</li>
+                  ))}
+                </ul>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                See what the AI picks out of the selected updates before generating.
+              </p>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => highlightsMutation.mutate()}
+              disabled={highlightsMutation.isPending || selectedUpdateIds.length === 0}
+            >
+              {highlightsMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Find themes
+            </Button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 pb-4">
+            <div className="space-y-2">
+              <Label htmlFor="custom-header">Editor's Note</Label>
+              <Textarea
+                id="custom-header"
+                placeholder="Shown at the top of the newsletter, as written"
+                value={customHeader}
+                onChange={(e) => setCustomHeader(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="custom-closing">Sign-off</Label>
+              <Textarea
+                id="custom-closing"
+                placeholder="Shown at the end of the newsletter, as written"
+                value={customClosing}
+                onChange={(e) => setCustomClosing(e.target.value)}
+              />
+            </div>
+            <div className="flex items-center gap-2 md:col-span-2">
+              <Checkbox
+                id="save-as-defaults"
+                checked={saveAsDefaults}
+                onCheckedChange={(checked) => setSaveAsDefaults(checked === true)}
+              />
+              <Label htmlFor="save-as-defaults" className="font-normal">
+                Use this note and sign-off for future issues of this loop
+              </Label>
+            </div>
+          </div>
+          {period?.updates.map((update) => (
+            <div key={update.id} className="flex items-start gap-3 p-3 bg-muted/50 rounded-lg">
+              <Checkbox
+                id={`period-update-${update.id}`}
+                checked={!excludedUpdateIds.has(update.id)}
+                onCheckedChange={(checked) => toggleUpdate(update.id, checked === true)}
+                className="mt-1"
+              />
+              <label htmlFor={`period-update-${update.id}`} className="flex-1 cursor-pointer">
+                <div className="flex justify-between items-center">
+                  <span className="font-medium">
+                    {update.user ? `${update.user.firstName} ${update.user.lastName}` : "Unknown member"}
+                  </span>
+                  <time className="text-sm text-muted-foreground">
+                    {format(new Date(update.createdAt), "PPp")}
+                  </time>
+                </div>
+                <p className="text-sm mt-1 line-clamp-2">{update.content}</p>
+                {update.mediaUrls.length > 0 && (
+                  <span className="text-xs text-muted-foreground">
+                    {update.mediaUrls.length} media attached
+                  </span>
+                )}
+              </label>
+            </div>
+          ))}
+          {period && period.updates.length === 0 && (
+            <p className="text-center text-muted-foreground py-4">
+              No new updates since the last newsletter
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Updates */}
       <Card>
         <CardHeader>
@@ -250,9 +631,19 @@ export default function AdminLoopDetails() {
             <Card key={update.id}>
               <CardHeader>
                 <div className="flex justify-between items-center">
-                  <p className="font-medium">
-                    {update.user.firstName} {update.user.lastName}
-                  </p>
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium">
+                      {update.user.firstName} {update.user.lastName}
+                    </p>
+                    {update.newsletterId !== null && (() => {
+                      const newsletter = loop.newsletters.find((n) => n.id === update.newsletterId);
+                      return (
+                        <Badge variant={newsletter?.status === "sent" ? "secondary" : "outline"}>
+                          {newsletter?.status === "sent" ? "Published" : "In draft"}
+                        </Badge>
+                      );
+                    })()}
+                  </div>
                   <time className="text-sm text-muted-foreground">
                     {format(new Date(update.createdAt), "PPp")}
                   </time>
@@ -302,6 +693,12 @@ export default function AdminLoopDetails() {
                   </time>
                   <span className="text-xs text-muted-foreground mt-1">
                     Status: {newsletter.status}
+                    {newsletter.status === "sent" && (() => {
+                      const memberDeliveries = Array.from(latestDeliveryPerMember(newsletter.deliveries).values());
+                      const delivered = memberDeliveries.filter((d) => d.status === "delivered").length;
+                      const failed = memberDeliveries.filter((d) => d.status === "failed" || d.status === "undelivered").length;
+                      return <> · {delivered} delivered, {failed} failed</>;
+                    })()}
                   </span>
                 </div>
                 <div className="flex items-center gap-2">
@@ -85,6 +85,7 @@ export default function Dashboard() {
         ...data,
         creatorId: user!.id,
         reminderSchedule: DEFAULT_REMINDER_SCHEDULE,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
       });
 
       toast({
@@ -0,0 +1,172 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useUser } from "../hooks/use-user";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Send, Trash2 } from "lucide-react";
+
+interface LocalMessage {
+  id: string;
+  direction: "outbound" | "inbound";
+  phoneNumber: string;
+  body: string;
+  createdAt: string;
+}
+
+// Development tool: texts the app as a member through the local SMS
+// transport and shows everything it would have sent
+export default function DevSMS() {
+  const { user } = useUser();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [from, setFrom] = useState(user?.phoneNumber ?? "");
+  const [body, setBody] = useState("");
+
+  const { data: messages, isLoading, error } = useQuery<LocalMessage[]>({
+    queryKey: ["/api/dev/sms"],
+    refetchInterval: 3000,
+    retry: false,
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch("/api/dev/sms/inbound", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ from, body }),
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      setBody("");
+      queryClient.invalidateQueries({ queryKey: ["/api/dev/sms"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to send message",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch("/api/dev/sms", {
+        method: "DELETE",
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/dev/sms"] });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="container mx-auto p-4">
+        <Card className="max-w-2xl mx-auto">
+          <CardContent className="py-8 text-center text-muted-foreground">
+            The local SMS transport isn't active. Unset the Twilio credentials or set SMS_PROVIDER=local to use this page.
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-4 grid gap-4 md:grid-cols-2">
+      <Card>
+        <CardHeader>
+          <CardTitle>Text the app</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              sendMutation.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="from">From</Label>
+              <Input
+                id="from"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+                placeholder="Member's phone number"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="body">Message</Label>
+              <Textarea
+                id="body"
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                placeholder="An update, a loop number, or a command like HELP"
+              />
+            </div>
+            <Button type="submit" className="w-full" disabled={!from || !body || sendMutation.isPending}>
+              {sendMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Send className="mr-2 h-4 w-4" />
+              )}
+              Send
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Messages</CardTitle>
+          <Button variant="outline" size="sm" onClick={() => clearMutation.mutate()}>
+            <Trash2 className="mr-2 h-4 w-4" />
+            Clear
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {!messages?.length ? (
+            <p className="text-sm text-muted-foreground">No messages yet.</p>
+          ) : (
+            [...messages].reverse().map((message) => (
+              <div key={message.id} className="rounded-md border p-3 space-y-1">
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <Badge variant={message.direction === "inbound" ? "secondary" : "default"}>
+                    {message.direction === "inbound" ? "From" : "To"} {message.phoneNumber}
+                  </Badge>
+                  <span>{new Date(message.createdAt).toLocaleString()}</span>
+                </div>
+                <p className="text-sm whitespace-pre-wrap">{message.body}</p>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
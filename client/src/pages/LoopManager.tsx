@@ -21,12 +21,16 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
+import type { LoopMember } from "@db/schema";
+import { MessageTemplatesEditor } from "@/components/MessageTemplatesEditor";
 import { Label } from "@/components/ui/label";
 import { useForm } from "react-hook-form";
 import PhoneInput from 'react-phone-input-2';
 import 'react-phone-input-2/lib/style.css';
 import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { formatInTimeZone } from "date-fns-tz";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -50,6 +54,9 @@ type AddMemberForm = {
 type LoopSettingsForm = {
   context?: string;
   vibe: string[];
+  draftLeadHours: number;
+  autoSend: boolean;
+  thankContributors: boolean;
 };
 
 const AddMemberDialog = ({ isOpen, onOpenChange, onSubmit }: {
@@ -148,6 +155,130 @@ const AddMemberDialog = ({ isOpen, onOpenChange, onSubmit }: {
   );
 };
 
+// Per-member timezone and quiet hours; "loop" leaves the loop's setting in place
+const MemberDeliveryDialog = ({ loopId, loopTimezone, member, onSaved }: {
+  loopId: string;
+  loopTimezone: string;
+  member: LoopMember;
+  onSaved: () => Promise<void>;
+}) => {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [timezone, setTimezone] = useState(member.timezone ?? 'loop');
+  const [quietHoursStart, setQuietHoursStart] = useState(member.quietHoursStart ?? 'loop');
+  const [quietHoursEnd, setQuietHoursEnd] = useState(member.quietHoursEnd ?? '08:00');
+
+  const handleSave = useCallback(async () => {
+    const ownQuietHours = quietHoursStart !== 'loop';
+    try {
+      const response = await fetch(`/api/loops/${loopId}/members/${member.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          timezone: timezone === 'loop' ? null : timezone,
+          quietHoursStart: ownQuietHours ? quietHoursStart : null,
+          quietHoursEnd: ownQuietHours ? quietHoursEnd : null,
+        }),
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+
+      await onSaved();
+      toast({
+        title: "Success",
+        description: "Delivery settings updated",
+      });
+      setIsOpen(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update delivery settings",
+        variant: "destructive",
+      });
+    }
+  }, [loopId, member.id, timezone, quietHoursStart, quietHoursEnd, onSaved, toast]);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          Delivery
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Delivery Settings</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Timezone</Label>
+            <Select value={timezone} onValueChange={setTimezone}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="loop">Same as the loop ({loopTimezone.replace(/_/g, ' ')})</SelectItem>
+                {(timezone === 'loop' || TIMEZONE_OPTIONS.includes(timezone)
+                  ? TIMEZONE_OPTIONS
+                  : [timezone, ...TIMEZONE_OPTIONS]
+                ).map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {option.replace(/_/g, ' ')}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Quiet Hours</Label>
+            <div className="flex items-center gap-2">
+              <Select value={quietHoursStart} onValueChange={setQuietHoursStart}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="loop">Same as the loop</SelectItem>
+                  {TIME_OPTIONS.map((time) => (
+                    <SelectItem key={time} value={time}>
+                      {time}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {quietHoursStart !== 'loop' && (
+                <>
+                  <span className="text-sm text-muted-foreground">to</span>
+                  <Select value={quietHoursEnd} onValueChange={setQuietHoursEnd}>
+                    <SelectTrigger className="w-[120px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TIME_OPTIONS.map((time) => (
+                        <SelectItem key={time} value={time}>
+                          {time}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </>
+              )}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Reminders, group messages and newsletter links that would arrive during quiet hours wait until they end.
+            </p>
+          </div>
+          <Button className="w-full" onClick={handleSave}>
+            Save
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
 export default function LoopManager() {
   const { id } = useParams<{ id: string }>();
   const { loop, isLoading, updateLoop, deleteLoop } = useLoop(parseInt(id));
@@ -161,6 +292,9 @@ export default function LoopManager() {
     defaultValues: {
       context: loop?.context ?? '',
       vibe: loop?.vibe || [],
+      draftLeadHours: loop?.draftLeadHours ?? 48,
+      autoSend: loop?.autoSend ?? false,
+      thankContributors: loop?.thankContributors ?? false,
     }
   });
 
@@ -238,6 +372,9 @@ export default function LoopManager() {
               <CardTitle>{loop.name}</CardTitle>
               <CardDescription>
                 Created on {new Date(loop.createdAt!).toLocaleDateString()}
+                {loop.shortCode && (
+                  <> · Members can text [{loop.shortCode}] to post here</>
+                )}
               </CardDescription>
             </div>
             <AddMemberDialog
@@ -248,9 +385,10 @@ export default function LoopManager() {
           </CardHeader>
           <CardContent>
             <Tabs defaultValue="members">
-              <TabsList className="grid w-full grid-cols-3">
+              <TabsList className="grid w-full grid-cols-4">
                 <TabsTrigger value="updates">Updates</TabsTrigger>
                 <TabsTrigger value="members">Members</TabsTrigger>
+                <TabsTrigger value="messages">Messages</TabsTrigger>
                 <TabsTrigger value="settings">Settings</TabsTrigger>
               </TabsList>
 
@@ -282,57 +420,70 @@ export default function LoopManager() {
                               <p className="text-sm text-muted-foreground">
                                 {member.user?.phoneNumber}
                               </p>
+                              {member.remindersPaused && (
+                                <p className="text-sm text-muted-foreground italic">
+                                  Reminders paused
+                                </p>
+                              )}
                               {member.user?.email && (
                                 <p className="text-sm text-muted-foreground">
                                   {member.user.email}
                                 </p>
                               )}
                             </div>
-                            <AlertDialog>
-                              <AlertDialogTrigger asChild>
-                                <Button variant="destructive" size="sm">
-                                  Remove
-                                </Button>
-                              </AlertDialogTrigger>
-                              <AlertDialogContent>
-                                <AlertDialogHeader>
-                                  <AlertDialogTitle>Remove Member?</AlertDialogTitle>
-                                  <AlertDialogDescription>
-                                    This action cannot be undone. This will permanently remove this member from the loop.
-                                  </AlertDialogDescription>
-                                </AlertDialogHeader>
-                                <AlertDialogFooter>
-                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
-                                  <AlertDialogAction
-                                    onClick={async () => {
-                                      try {
-                                        const response = await fetch(`/api/loops/${id}/members/${member.id}`, {
-                                          method: 'DELETE',
-                                          credentials: 'include',
-                                        });
-                                        if (!response.ok) {
-                                          throw new Error(await response.text());
-                                        }
-                                        await queryClient.invalidateQueries({ queryKey: [`/api/loops/${id}`] });
-                                        toast({
-                                          title: "Success",
-                                          description: "Member removed successfully",
-                                        });
-                                      } catch (error) {
-                                        toast({
-                                          title: "Error",
-                                          description: error instanceof Error ? error.message : "Failed to remove member",
-                                          variant: "destructive",
-                                        });
-                                      }
-                                    }}
-                                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                                  >
+                            <div className="flex gap-2">
+                              <MemberDeliveryDialog
+                                loopId={id}
+                                loopTimezone={loop.timezone}
+                                member={member}
+                                onSaved={() => queryClient.invalidateQueries({ queryKey: [`/api/loops/${id}`] })}
+                              />
+                              <AlertDialog>
+                                <AlertDialogTrigger asChild>
+                                  <Button variant="destructive" size="sm">
                                     Remove
-                                  </AlertDialogAction>
-                                </AlertDialogFooter>
-                              </AlertDialogContent>
-                            </AlertDialog>
+                                  </Button>
+                                </AlertDialogTrigger>
+                                <AlertDialogContent>
+                                  <AlertDialogHeader>
+                                    <AlertDialogTitle>Remove Member?</AlertDialogTitle>
+                                    <AlertDialogDescription>
+                                      This action cannot be undone. This will permanently remove this member from the loop.
+                                    </AlertDialogDescription>
+                                  </AlertDialogHeader>
+                                  <AlertDialogFooter>
+                                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                    <AlertDialogAction
+                                      onClick={async () => {
+                                        try {
+                                          const response = await fetch(`/api/loops/${id}/members/${member.id}`, {
+                                            method: 'DELETE',
+                                            credentials: 'include',
+                                          });
+                                          if (!response.ok) {
+                                            throw new Error(await response.text());
+                                          }
+                                          await queryClient.invalidateQueries({ queryKey: [`/api/loops/${id}`] });
+                                          toast({
+                                            title: "Success",
+                                            description: "Member removed successfully",
+                                          });
+                                        } catch (error) {
+                                          toast({
+                                            title: "Error",
+                                            description: error instanceof Error ? error.message : "Failed to remove member",
+                                            variant: "destructive",
+                                          });
+                                        }
+                                      }}
+                                      className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                    >
+                                      Remove
+                                    </AlertDialogAction>
+                                  </AlertDialogFooter>
+                                </AlertDialogContent>
+                              </AlertDialog>
+                            </div>
                           </div>
                         </CardContent>
                       </Card>
@@ -437,6 +588,12 @@ export default function LoopManager() {
                   <p className="text-muted-foreground">No updates yet.</p>
                 )}
               </TabsContent>
+              <TabsContent value="messages" className="mt-4">
+                <p className="text-sm text-muted-foreground mb-4">
+                  Customize the texts this loop sends. Variables in double braces are filled in for each member.
+                </p>
+                <MessageTemplatesEditor loopId={loop.id} loopName={loop.name} loopCode={loop.shortCode} />
+              </TabsContent>
               <TabsContent value="settings" className="mt-4">
                 <div className="flex justify-between items-center mb-4">
                   <h3 className="text-lg font-semibold">Loop Settings</h3>
@@ -450,6 +607,9 @@ export default function LoopManager() {
                             settingsForm.reset({
                               context: loop.context ?? undefined,
                               vibe: loop.vibe,
+                              draftLeadHours: loop.draftLeadHours,
+                              autoSend: loop.autoSend,
+                              thankContributors: loop.thankContributors,
                             });
                           }}
                         >
@@ -462,6 +622,9 @@ export default function LoopManager() {
                                 ...loop,
                                 context: data.context,
                                 vibe: data.vibe,
+                                draftLeadHours: data.draftLeadHours,
+                                autoSend: data.autoSend,
+                                thankContributors: data.thankContributors,
                               });
                               toast({
                                 title: "Success",
@@ -481,7 +644,18 @@ export default function LoopManager() {
                         </Button>
                       </>
                     ) : (
-                      <Button onClick={() => setIsEditingSettings(true)}>
+                      <Button
+                        onClick={() => {
+                          settingsForm.reset({
+                            context: loop.context ?? undefined,
+                            vibe: loop.vibe,
+                            draftLeadHours: loop.draftLeadHours,
+                            autoSend: loop.autoSend,
+                            thankContributors: loop.thankContributors,
+                          });
+                          setIsEditingSettings(true);
+                        }}
+                      >
                         Edit Settings
                       </Button>
                     )}
@@ -514,6 +688,78 @@ export default function LoopManager() {
                   <div>
                     <Label>Newsletter Frequency</Label>
                     <p className="text-muted-foreground">{loop.frequency}</p>
+                    {loop.nextIssueAt && (
+                      <p className="text-sm text-muted-foreground mt-1">
+                        Next issue: {new Date(loop.nextIssueAt).toLocaleDateString()}
+                      </p>
+                    )}
+                  </div>
+                  {!!loop.llmProviders?.length && (
+                    <div>
+                      <Label>Newsletter Writer</Label>
+                      <Select
+                        value={loop.llmProvider ?? 'default'}
+                        onValueChange={async (value) => {
+                          try {
+                            await updateLoop({ llmProvider: value === 'default' ? null : value });
+                            toast({
+                              title: "Success",
+                              description: "Newsletter writer updated successfully!",
+                            });
+                          } catch (error) {
+                            toast({
+                              title: "Error",
+                              description: error instanceof Error ? error.message : "Failed to update newsletter writer",
+                              variant: "destructive",
+                            });
+                          }
+                        }}
+                      >
+                        <SelectTrigger className="w-[280px] mt-2">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="default">Default</SelectItem>
+                          {loop.llmProviders.map((provider) => (
+                            <SelectItem key={provider} value={provider}>
+                              {LLM_PROVIDER_LABELS[provider] ?? provider}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-sm text-muted-foreground mt-2">
+                        The AI model that writes this loop's newsletter drafts.
+                      </p>
+                    </div>
+                  )}
+                  <div>
+                    <Label>Automatic Drafts</Label>
+                    {isEditingSettings ? (
+                      <div className="mt-2 space-y-3">
+                        <div className="flex items-center gap-2">
+                          <Input
+                            type="number"
+                            min={0}
+                            className="w-24"
+                            {...settingsForm.register("draftLeadHours", { valueAsNumber: true, min: 0 })}
+                          />
+                          <span className="text-sm text-muted-foreground">hours before each issue</span>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <Switch
+                            id="autoSend"
+                            checked={settingsForm.watch("autoSend")}
+                            onCheckedChange={(checked) => settingsForm.setValue("autoSend", checked)}
+                          />
+                          <Label htmlFor="autoSend">Send the draft automatically if nobody edits it</Label>
+                        </div>
+                      </div>
+                    ) : (
+                      <p className="text-muted-foreground">
+                        Drafted {loop.draftLeadHours} hours before each issue
+                        {loop.autoSend ? ", sent automatically if untouched" : ", sent after you review it"}
+                      </p>
+                    )}
                   </div>
                   <div>
                     <Label>Newsletter Vibe</Label>
@@ -559,6 +805,116 @@ export default function LoopManager() {
                       <p className="text-muted-foreground">{loop.context || "No context provided"}</p>
                     )}
                   </div>
+                  <div>
+                    <Label>Timezone</Label>
+                    <Select
+                      value={loop.timezone}
+                      onValueChange={async (timezone) => {
+                        try {
+                          await updateLoop({ timezone });
+                          toast({
+                            title: "Success",
+                            description: "Timezone updated successfully!",
+                          });
+                        } catch (error) {
+                          toast({
+                            title: "Error",
+                            description: error instanceof Error ? error.message : "Failed to update timezone",
+                            variant: "destructive",
+                          });
+                        }
+                      }}
+                    >
+                      <SelectTrigger className="w-[280px] mt-2">
+                        <SelectValue placeholder="Select timezone" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(TIMEZONE_OPTIONS.includes(loop.timezone)
+                          ? TIMEZONE_OPTIONS
+                          : [loop.timezone, ...TIMEZONE_OPTIONS]
+                        ).map((timezone) => (
+                          <SelectItem key={timezone} value={timezone}>
+                            {timezone.replace(/_/g, ' ')}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label>Quiet Hours</Label>
+                    <div className="flex items-center gap-2 mt-2">
+                      <Select
+                        value={loop.quietHoursStart ?? 'off'}
+                        onValueChange={async (start) => {
+                          try {
+                            await updateLoop(start === 'off'
+                              ? { quietHoursStart: null, quietHoursEnd: null }
+                              : { quietHoursStart: start, quietHoursEnd: loop.quietHoursEnd ?? '08:00' });
+                            toast({
+                              title: "Success",
+                              description: "Quiet hours updated successfully!",
+                            });
+                          } catch (error) {
+                            toast({
+                              title: "Error",
+                              description: error instanceof Error ? error.message : "Failed to update quiet hours",
+                              variant: "destructive",
+                            });
+                          }
+                        }}
+                      >
+                        <SelectTrigger className="w-[180px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="off">Off</SelectItem>
+                          {TIME_OPTIONS.map((time) => (
+                            <SelectItem key={time} value={time}>
+                              {time}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {loop.quietHoursStart && (
+                        <>
+                          <span className="text-sm text-muted-foreground">to</span>
+                          <Select
+                            value={loop.quietHoursEnd ?? '08:00'}
+                            onValueChange={async (quietHoursEnd) => {
+                              try {
+                                await updateLoop({ quietHoursEnd });
+                                toast({
+                                  title: "Success",
+                                  description: "Quiet hours updated successfully!",
+                                });
+                              } catch (error) {
+                                toast({
+                                  title: "Error",
+                                  description: error instanceof Error ? error.message : "Failed to update quiet hours",
+                                  variant: "destructive",
+                                });
+                              }
+                            }}
+                          >
+                            <SelectTrigger className="w-[120px]">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {TIME_OPTIONS.map((time) => (
+                                <SelectItem key={time} value={time}>
+                                  {time}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </>
+                      )}
+                    </div>
+                    <p className="text-sm text-muted-foreground mt-2">
+                      Reminders, group messages and newsletter links that would arrive during quiet hours are held until they end,
+                      in each member's own timezone. Members can have their own quiet hours under Delivery.
+                    </p>
+                  </div>
                   <div>
                     <Label>Reminder Schedule</Label>
                     <div className="mt-2 space-y-2">
@@ -635,6 +991,29 @@ export default function LoopManager() {
                     </div>
                     <p className="text-sm text-muted-foreground mt-2">
                       Select the days and times when members will receive SMS reminders to share their updates.
+                      Times are in the loop's timezone ({loop.timezone.replace(/_/g, ' ')}).
+                    </p>
+                    {loop.nextReminderAt && (
+                      <p className="text-sm mt-1">
+                        Next reminder: {formatInTimeZone(new Date(loop.nextReminderAt), loop.timezone, "EEEE, MMM d 'at' HH:mm zzz")}
+                      </p>
+                    )}
+                  </div>
+                  <div>
+                    <Label>Thank-you Messages</Label>
+                    <div className="mt-2 flex items-center space-x-2">
+                      <Switch
+                        id="thankContributors"
+                        checked={isEditingSettings ? settingsForm.watch("thankContributors") : loop.thankContributors}
+                        disabled={!isEditingSettings}
+                        onCheckedChange={(checked) => settingsForm.setValue("thankContributors", checked)}
+                      />
+                      <Label htmlFor="thankContributors">
+                        Send a thank-you instead of reminders to members who already shared
+                      </Label>
+                    </div>
+                    <p className="text-sm text-muted-foreground mt-2">
+                      The wording of reminders and thank-yous can be changed under Messages.
                     </p>
                   </div>
                 </div>
@@ -661,6 +1040,44 @@ const DEFAULT_REMINDER_SCHEDULE = [
   { day: 'Sunday', time: '17:00' },
 ];
 
+const LLM_PROVIDER_LABELS: Record<string, string> = {
+  openai: 'OpenAI',
+  anthropic: 'Anthropic Claude',
+  mock: 'Offline (for testing)',
+};
+
+const TIMEZONE_OPTIONS = [
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Phoenix',
+  'America/Los_Angeles',
+  'America/Anchorage',
+  'Pacific/Honolulu',
+  'America/Toronto',
+  'America/Vancouver',
+  'America/Mexico_City',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Dublin',
+  'Europe/Lisbon',
+  'Europe/Paris',
+  'Europe/Berlin',
+  'Europe/Madrid',
+  'Europe/Rome',
+  'Europe/Amsterdam',
+  'Europe/Stockholm',
+  'Europe/Athens',
+  'Africa/Johannesburg',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Shanghai',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Pacific/Auckland',
+];
+
 const DAYS_OF_WEEK = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
 const TIME_OPTIONS = Array.from({ length: 24 * 12 }, (_, index) => {
   const hour = Math.floor(index / 12);
@@ -1,5 +1,5 @@
 import { useParams } from "wouter";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import {
   Card,
   CardContent,
@@ -9,9 +9,22 @@ import {
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Progress } from "@/components/ui/progress";
 import { Loader2, Send, Eye } from "lucide-react";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { useToast } from "@/hooks/use-toast";
+import { NewsletterRevisions } from "@/components/NewsletterRevisions";
+import { NewsletterBlockEditor, type LoopMedia } from "@/components/NewsletterBlockEditor";
+import { NewsletterAssistant, type NewsletterSuggestion } from "@/components/NewsletterAssistant";
+import {
+  applyRewrite,
+  getRewriteTarget,
+  parseNewsletter,
+  serializeNewsletter,
+  type NewsletterBlock,
+  type ParsedNewsletter,
+} from "@/lib/newsletter-blocks";
 
 interface Newsletter {
   id: number;
@@ -22,30 +35,181 @@ interface Newsletter {
   loopId: number;
 }
 
+interface LoopUpdates {
+  updates: Array<{
+    mediaUrls: string[];
+    user: {
+      firstName: string;
+      lastName: string;
+    };
+  }>;
+}
+
+// How long to wait after the last keystroke before refreshing the preview
+const PREVIEW_DELAY_MS = 500;
+
+interface SMSJobProgress {
+  id: number;
+  total: number;
+  sent: number;
+  failed: number;
+  suppressed: number;
+  pending: number;
+  done: boolean;
+}
+
+// Members who already had the newsletter aren't part of the job
+interface SendNewsletterResponse extends SMSJobProgress {
+  skipped: number;
+}
+
 export default function NewsletterEditor() {
   const { loopId, newsletterId } = useParams<{ loopId: string, newsletterId: string }>();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [content, setContent] = useState("");
+  // What the server has, which rewrites are worked out from
+  const [savedContent, setSavedContent] = useState("");
+  const [parsed, setParsed] = useState<ParsedNewsletter>({ shell: "", blocks: [] });
+  const [mode, setMode] = useState("visual");
+  const [previewHtml, setPreviewHtml] = useState("");
+  const [sendJob, setSendJob] = useState<SendNewsletterResponse | null>(null);
 
   // Fetch newsletter data
   const { data: newsletter, isLoading, error } = useQuery<Newsletter>({
     queryKey: [`/api/loops/${loopId}/newsletters/${newsletterId}/preview`],
   });
 
+  // Photos members have sent, for image blocks
+  const { data: loopDetails } = useQuery<LoopUpdates>({
+    queryKey: [`/api/admin/loops/${loopId}`],
+  });
+  const media: LoopMedia[] = (loopDetails?.updates ?? []).flatMap((update) =>
+    update.mediaUrls.map((url) => ({ url, userName: `${update.user.firstName} ${update.user.lastName}` }))
+  );
+
   // Set content when newsletter data is loaded
   useEffect(() => {
     if (newsletter?.content) {
       setContent(newsletter.content);
+      setSavedContent(newsletter.content);
+      setParsed(parseNewsletter(newsletter.content));
     }
   }, [newsletter]);
 
+  const handleBlocksChange = useCallback((blocks: NewsletterBlock[]) => {
+    const next = { ...parsed, blocks };
+    setParsed(next);
+    setContent(serializeNewsletter(next));
+  }, [parsed]);
+
+  // Rewrites land in whatever the blocks are by the time the response comes back
+  const parsedRef = useRef(parsed);
+  parsedRef.current = parsed;
+  const contentRef = useRef(content);
+  contentRef.current = content;
+
+  const rewriteMutation = useMutation({
+    mutationFn: async ({ blockId, instruction }: { blockId: string; instruction: string }) => {
+      const target = getRewriteTarget(parsedRef.current.blocks, blockId);
+      if (!target) {
+        throw new Error("Only sections and paragraphs can be rewritten");
+      }
+      // The server finds the block by its position in the saved draft
+      if (contentRef.current !== savedContent) {
+        throw new Error("Save your changes before rewriting");
+      }
+
+      const response = await fetch(`/api/loops/${loopId}/newsletters/${newsletterId}/regenerate-section`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          blockIndex: parsedRef.current.blocks.findIndex((block) => block.id === blockId),
+          instruction: instruction.trim() || undefined,
+        }),
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+
+      return { target, rewrite: await response.json() as { heading: string; body: string } };
+    },
+    onSuccess: ({ target, rewrite }) => {
+      const next = { ...parsedRef.current, blocks: applyRewrite(parsedRef.current.blocks, target, rewrite) };
+      setParsed(next);
+      setContent(serializeNewsletter(next));
+      toast({
+        title: "Rewritten",
+        description: "Review the new text, then save your changes.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to rewrite",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Suggestions name the section they're about by its heading
+  const findSectionBlock = useCallback((suggestion: NewsletterSuggestion) => {
+    const heading = suggestion.sectionHeading?.trim();
+    return heading
+      ? parsed.blocks.find((block) => block.type === "heading" && block.level <= 2 && block.text.trim() === heading)
+      : undefined;
+  }, [parsed]);
+
+  // The HTML tab edits content directly, so re-read the blocks when switching back
+  const handleModeChange = useCallback((value: string) => {
+    if (value === "visual") {
+      setParsed(parseNewsletter(content));
+    }
+    setMode(value);
+  }, [content]);
+
+  // Render the unsaved content the same way the public newsletter page does
+  useEffect(() => {
+    if (!content) {
+      return;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/loops/${loopId}/newsletters/render`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ content }),
+          credentials: 'include',
+          signal: controller.signal,
+        });
+
+        if (response.ok) {
+          setPreviewHtml(await response.text());
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error("Failed to render preview:", error);
+        }
+      }
+    }, PREVIEW_DELAY_MS);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [content, loopId]);
+
   // Update newsletter content
   const updateMutation = useMutation({
-    mutationFn: async () => {
+    mutationFn: async (draft: string) => {
       const response = await fetch(`/api/loops/${loopId}/newsletters/${newsletterId}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ content }),
+        body: JSON.stringify({ content: draft }),
         credentials: 'include',
       });
 
@@ -55,7 +219,15 @@ export default function NewsletterEditor() {
 
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (saved: Newsletter, draft) => {
+      setSavedContent(saved.content);
+      // Show what was stored, which the server may have cleaned up, unless
+      // there have been more edits since
+      if (saved.content !== draft && contentRef.current === draft) {
+        setContent(saved.content);
+        setParsed(parseNewsletter(saved.content));
+      }
+      queryClient.invalidateQueries({ queryKey: [`/api/loops/${loopId}/newsletters/${newsletterId}/revisions`] });
       toast({
         title: "Changes saved",
         description: "Newsletter draft has been updated.",
@@ -84,11 +256,8 @@ export default function NewsletterEditor() {
 
       return response.json();
     },
-    onSuccess: () => {
-      toast({
-        title: "Newsletter sent",
-        description: "The newsletter has been sent to all loop members.",
-      });
+    onSuccess: (data: SendNewsletterResponse) => {
+      setSendJob(data);
     },
     onError: (error) => {
       toast({
@@ -99,6 +268,43 @@ export default function NewsletterEditor() {
     },
   });
 
+  // Links go out through the throttled queue; poll until every one is settled
+  const { data: sendProgress } = useQuery<SMSJobProgress>({
+    queryKey: [`/api/admin/sms-jobs/${sendJob?.id}`],
+    enabled: sendJob !== null,
+    refetchInterval: (query) => (query.state.data?.done ? false : 2000),
+  });
+  const sending = sendJob !== null && !sendProgress?.done;
+
+  useEffect(() => {
+    if (!sendJob || !sendProgress?.done || sendProgress.id !== sendJob.id) return;
+
+    queryClient.invalidateQueries({ queryKey: [`/api/loops/${loopId}/newsletters/${newsletterId}/preview`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/admin/loops/${loopId}`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/loops/${loopId}/period`] });
+
+    const { sent, failed, suppressed } = sendProgress;
+    const { skipped } = sendJob;
+    const optedOutNote = suppressed > 0 ? ` ${suppressed} opted out of texts and were skipped.` : "";
+    setSendJob(null);
+
+    if (failed > 0) {
+      toast({
+        title: "Some messages failed",
+        description: `Sent to ${sent + skipped} members, ${failed} failed. Send again to retry the failed members.${optedOutNote}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Newsletter sent",
+      description: (skipped > 0
+        ? `Sent to ${sent} remaining members (${skipped} already had it).`
+        : `The newsletter has been sent to ${sent} loop members.`) + optedOutNote,
+    });
+  }, [sendJob, sendProgress, loopId, newsletterId, queryClient, toast]);
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -134,7 +340,7 @@ export default function NewsletterEditor() {
         <CardContent className="space-y-4">
           <div className="flex gap-4 mb-4">
             <Button
-              onClick={() => updateMutation.mutate()}
+              onClick={() => updateMutation.mutate(content)}
               disabled={updateMutation.isPending}
             >
               {updateMutation.isPending ? (
@@ -156,9 +362,9 @@ export default function NewsletterEditor() {
             <Button
               variant="default"
               onClick={() => sendMutation.mutate()}
-              disabled={sendMutation.isPending}
+              disabled={sendMutation.isPending || sending}
             >
-              {sendMutation.isPending ? (
+              {sendMutation.isPending || sending ? (
                 <>
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                   Sending...
@@ -172,14 +378,73 @@ export default function NewsletterEditor() {
             </Button>
           </div>
 
-          <Textarea
-            value={content}
-            onChange={(e) => setContent(e.target.value)}
-            className="min-h-[500px] font-mono"
-            placeholder="Loading newsletter content..."
-          />
+          {sending && (
+            <div className="space-y-2">
+              <Progress value={sendProgress ? ((sendProgress.total - sendProgress.pending) / Math.max(sendProgress.total, 1)) * 100 : 0} />
+              <p className="text-sm text-muted-foreground">
+                {sendProgress
+                  ? `Sending: ${sendProgress.sent} of ${sendProgress.total} sent`
+                  : "Queueing messages..."}
+                {sendProgress && sendProgress.failed > 0 && `, ${sendProgress.failed} failed`}
+                {sendProgress && sendProgress.suppressed > 0 && `, ${sendProgress.suppressed} opted out`}
+              </p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+            <Tabs value={mode} onValueChange={handleModeChange}>
+              <TabsList>
+                <TabsTrigger value="visual">Visual</TabsTrigger>
+                <TabsTrigger value="html">HTML</TabsTrigger>
+              </TabsList>
+              <TabsContent value="visual" className="max-h-[800px] overflow-y-auto pr-2">
+                <NewsletterBlockEditor
+                  blocks={parsed.blocks}
+                  media={media}
+                  onChange={handleBlocksChange}
+                  onRewrite={newsletter.status === 'draft'
+                    ? (blockId, instruction) => rewriteMutation.mutate({ blockId, instruction })
+                    : undefined}
+                  rewritingId={rewriteMutation.isPending ? rewriteMutation.variables?.blockId : null}
+                />
+              </TabsContent>
+              <TabsContent value="html">
+                <Textarea
+                  value={content}
+                  onChange={(e) => setContent(e.target.value)}
+                  className="min-h-[800px] font-mono"
+                  placeholder="Loading newsletter content..."
+                />
+              </TabsContent>
+            </Tabs>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-muted-foreground">Live preview</p>
+              <iframe
+                title="Newsletter preview"
+                srcDoc={previewHtml}
+                sandbox=""
+                className="w-full h-[800px] rounded-lg border bg-white"
+              />
+            </div>
+          </div>
         </CardContent>
       </Card>
+
+      <NewsletterAssistant
+        loopId={loopId}
+        newsletterId={newsletterId}
+        isDraft={newsletter.status === 'draft'}
+        canApply={(suggestion) => !!findSectionBlock(suggestion)}
+        onApply={(suggestion) => {
+          const block = findSectionBlock(suggestion);
+          if (block) {
+            rewriteMutation.mutate({ blockId: block.id, instruction: suggestion.instruction });
+          }
+        }}
+      />
+
+      <NewsletterRevisions loopId={loopId} newsletterId={newsletterId} />
     </div>
   );
 }
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { relations } from "drizzle-orm";
 import { nanoid } from 'nanoid';
@@ -23,10 +23,22 @@ export const users = pgTable("users", {
 export const loops = pgTable("loops", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
+  shortCode: text("short_code").unique(), // lets members address the loop over SMS, e.g. "BC"
   frequency: text("frequency").notNull(), // 'biweekly' or 'monthly'
   vibe: jsonb("vibe").$type<string[]>().notNull(),
   context: text("context"),
   reminderSchedule: jsonb("reminder_schedule").$type<ReminderSchedule>().notNull(),
+  timezone: text("timezone").notNull().default('America/New_York'), // IANA zone reminders are scheduled in
+  thankContributors: boolean("thank_contributors").notNull().default(false),
+  draftLeadHours: integer("draft_lead_hours").notNull().default(48), // how long before the issue date to auto-draft
+  autoSend: boolean("auto_send").notNull().default(false), // send untouched auto-drafts on the issue date
+  llmProvider: text("llm_provider"), // which LLM writes this loop's newsletters; null for the deployment default
+  // Default editor's note and sign-off for each issue; can be changed per issue when generating
+  newsletterHeader: text("newsletter_header"),
+  newsletterClosing: text("newsletter_closing"),
+  // Local times ('HH:mm') between which non-urgent texts wait; null turns quiet hours off
+  quietHoursStart: text("quiet_hours_start"),
+  quietHoursEnd: text("quiet_hours_end"),
   creatorId: integer("creator_id").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -36,6 +48,11 @@ export const loopMembers = pgTable("loop_members", {
   loopId: integer("loop_id").references(() => loops.id),
   userId: integer("user_id").references(() => users.id),
   context: text("context"),
+  remindersPaused: boolean("reminders_paused").notNull().default(false),
+  // Per-member overrides of the loop's timezone and quiet hours
+  timezone: text("timezone"),
+  quietHoursStart: text("quiet_hours_start"),
+  quietHoursEnd: text("quiet_hours_end"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -45,6 +62,10 @@ export const updates = pgTable("updates", {
   userId: integer("user_id").references(() => users.id),
   content: text("content").notNull(),
   mediaUrls: jsonb("media_urls").$type<string[]>().default([]),
+  // The newsletter this update was included in; it counts as published once that newsletter is sent
+  newsletterId: integer("newsletter_id").references((): AnyPgColumn => newsletters.id),
+  // Twilio MessageSid of the text that created this update, so retried webhooks don't save it twice
+  messageSid: text("message_sid").unique(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -54,9 +75,155 @@ export const newsletters = pgTable("newsletters", {
   content: text("content").notNull(),
   status: text("status").notNull().default('draft'),
   urlId: text("url_id").notNull().unique(),
+  scheduledFor: timestamp("scheduled_for"), // issue date, for drafts created by the scheduler
+  autoGenerated: boolean("auto_generated").notNull().default(false),
+  // Set when the scheduler tries to send the draft on its issue date; it only tries once
+  autoSendAttemptedAt: timestamp("auto_send_attempted_at"),
+  // Set while a send is texting members, so two overlapping sends can't both text them
+  deliveryClaimedAt: timestamp("delivery_claimed_at"),
   sentAt: timestamp("sent_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  scheduledIssue: uniqueIndex("newsletters_loop_scheduled_for_idx").on(table.loopId, table.scheduledFor),
+}));
+
+// A group message sent through the outbound queue; its progress is the status
+// of the deliveries that belong to it
+export const smsJobs = pgTable("sms_jobs", {
+  id: serial("id").primaryKey(),
+  loopId: integer("loop_id").references(() => loops.id),
+  createdById: integer("created_by_id").references(() => users.id),
+  kind: text("kind").notNull().default('bulk'), // 'bulk' or 'newsletter'
+  total: integer("total").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const deliveries = pgTable("deliveries", {
+  id: serial("id").primaryKey(),
+  newsletterId: integer("newsletter_id").references(() => newsletters.id),
+  jobId: integer("job_id").references(() => smsJobs.id),
+  loopId: integer("loop_id").references(() => loops.id),
+  userId: integer("user_id").references(() => users.id),
+  channel: text("channel").notNull().default('sms'),
+  kind: text("kind").notNull().default('message'), // 'newsletter', 'reminder', 'thanks', 'welcome', 'bulk' or 'message'
+  providerMessageSid: text("provider_message_sid").unique(),
+  status: text("status").notNull().default('pending'), // 'queued', 'sending', 'pending', 'sent', 'delivered', 'undelivered', 'failed' or 'suppressed'
+  error: text("error"),
+  // What was sent and to whom, so queued messages can be sent (and retried) later
+  toNumber: text("to_number"),
+  body: text("body"),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at"),
+  sentAt: timestamp("sent_at"),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// An update waiting for its sender to say which loop it's for, when they
+// belong to several loops and didn't name one
+export const smsConversations = pgTable("sms_conversations", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  pendingBody: text("pending_body").notNull(),
+  pendingMediaUrls: jsonb("pending_media_urls").$type<string[]>().notNull().default([]),
+  loopIds: jsonb("loop_ids").$type<number[]>().notNull(), // the options offered, in order
+  messageSid: text("message_sid"),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Every inbound text we've handled, by Twilio MessageSid. Claimed before the
+// text is acted on, so a retried webhook gets the first reply back instead of
+// running a command (UNDO, STOP...) or saving an update a second time.
+export const handledMessages = pgTable("handled_messages", {
+  messageSid: text("message_sid").primaryKey(),
+  reply: text("reply"), // null while the first delivery is still being handled
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Suppression list: numbers that replied STOP, either to everything (no loop)
+// or to a single loop. Keyed by phone number so it also covers non-members.
+export const smsOptOuts = pgTable("sms_opt_outs", {
+  id: serial("id").primaryKey(),
+  phoneNumber: text("phone_number").notNull(), // digits only
+  loopId: integer("loop_id").references(() => loops.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One row per (loop, scheduled reminder slot). The unique index doubles as a
+// lock so only one server instance sends a given slot.
+export const reminderRuns = pgTable("reminder_runs", {
+  id: serial("id").primaryKey(),
+  loopId: integer("loop_id").notNull().references(() => loops.id),
+  slot: timestamp("slot").notNull(), // the scheduled reminder time this run covers
+  status: text("status").notNull().default('running'), // 'running', 'completed' or 'failed'
+  sentCount: integer("sent_count").notNull().default(0),
+  error: text("error"),
+  startedAt: timestamp("started_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+}, (table) => ({
+  loopSlot: uniqueIndex("reminder_runs_loop_slot_idx").on(table.loopId, table.slot),
+}));
+
+// A loop's own wording for one of the texts we send ('welcome', 'reminder',
+// 'newsletter'...). Loops without a row get the default from server/templates.ts.
+export const messageTemplates = pgTable("message_templates", {
+  id: serial("id").primaryKey(),
+  loopId: integer("loop_id").notNull().references(() => loops.id),
+  key: text("key").notNull(),
+  body: text("body").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  loopKey: uniqueIndex("message_templates_loop_key_idx").on(table.loopId, table.key),
+}));
+
+export type GenerationJobOptions = {
+  customHeader?: string;
+  customClosing?: string;
+};
+
+// A newsletter being generated in the background, one section (batch of
+// updates) at a time. Becomes a draft once every section has succeeded.
+export const generationJobs = pgTable("generation_jobs", {
+  id: serial("id").primaryKey(),
+  loopId: integer("loop_id").notNull().references(() => loops.id),
+  createdById: integer("created_by_id").references(() => users.id),
+  status: text("status").notNull().default('queued'), // 'queued', 'running', 'succeeded' or 'failed'
+  updateIds: jsonb("update_ids").$type<number[]>().notNull(),
+  options: jsonb("options").$type<GenerationJobOptions>().notNull().default({}),
+  newsletterId: integer("newsletter_id").references(() => newsletters.id),
+  error: text("error"),
+  assembledAt: timestamp("assembled_at"), // set by whichever worker turns the sections into the draft
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const generationJobSections = pgTable("generation_job_sections", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").notNull().references(() => generationJobs.id),
+  position: integer("position").notNull(),
+  prompt: text("prompt").notNull(),
+  status: text("status").notNull().default('queued'), // 'queued', 'running', 'succeeded' or 'failed'
+  attempts: integer("attempts").notNull().default(0),
+  result: jsonb("result"), // the generated part of the newsletter document
+  error: text("error"),
+  nextAttemptAt: timestamp("next_attempt_at"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  jobPosition: uniqueIndex("generation_job_sections_job_position_idx").on(table.jobId, table.position),
+}));
+
+// Every version of a newsletter's content: each generation, save and restore
+export const newsletterRevisions = pgTable("newsletter_revisions", {
+  id: serial("id").primaryKey(),
+  newsletterId: integer("newsletter_id").notNull().references(() => newsletters.id),
+  content: text("content").notNull(),
+  source: text("source").notNull(), // 'generated', 'edit' or 'restore'
+  authorId: integer("author_id").references(() => users.id), // null when the scheduler generated it
+  restoredFromId: integer("restored_from_id").references((): AnyPgColumn => newsletterRevisions.id),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
 // Define relationships
@@ -74,6 +241,8 @@ export const loopsRelations = relations(loops, ({ one, many }) => ({
   members: many(loopMembers),
   updates: many(updates),
   newsletters: many(newsletters),
+  reminderRuns: many(reminderRuns),
+  messageTemplates: many(messageTemplates),
 }));
 
 export const loopMembersRelations = relations(loopMembers, ({ one }) => ({
@@ -96,13 +265,91 @@ export const updatesRelations = relations(updates, ({ one }) => ({
     fields: [updates.userId],
     references: [users.id],
   }),
+  newsletter: one(newsletters, {
+    fields: [updates.newsletterId],
+    references: [newsletters.id],
+  }),
 }));
 
-export const newslettersRelations = relations(newsletters, ({ one }) => ({
+export const newslettersRelations = relations(newsletters, ({ one, many }) => ({
   loop: one(loops, {
     fields: [newsletters.loopId],
     references: [loops.id],
   }),
+  deliveries: many(deliveries),
+  updates: many(updates),
+  revisions: many(newsletterRevisions),
+}));
+
+export const generationJobsRelations = relations(generationJobs, ({ one, many }) => ({
+  loop: one(loops, {
+    fields: [generationJobs.loopId],
+    references: [loops.id],
+  }),
+  newsletter: one(newsletters, {
+    fields: [generationJobs.newsletterId],
+    references: [newsletters.id],
+  }),
+  sections: many(generationJobSections),
+}));
+
+export const generationJobSectionsRelations = relations(generationJobSections, ({ one }) => ({
+  job: one(generationJobs, {
+    fields: [generationJobSections.jobId],
+    references: [generationJobs.id],
+  }),
+}));
+
+export const newsletterRevisionsRelations = relations(newsletterRevisions, ({ one }) => ({
+  newsletter: one(newsletters, {
+    fields: [newsletterRevisions.newsletterId],
+    references: [newsletters.id],
+  }),
+  author: one(users, {
+    fields: [newsletterRevisions.authorId],
+    references: [users.id],
+  }),
+}));
+
+export const reminderRunsRelations = relations(reminderRuns, ({ one }) => ({
+  loop: one(loops, {
+    fields: [reminderRuns.loopId],
+    references: [loops.id],
+  }),
+}));
+
+export const messageTemplatesRelations = relations(messageTemplates, ({ one }) => ({
+  loop: one(loops, {
+    fields: [messageTemplates.loopId],
+    references: [loops.id],
+  }),
+}));
+
+export const smsJobsRelations = relations(smsJobs, ({ one, many }) => ({
+  loop: one(loops, {
+    fields: [smsJobs.loopId],
+    references: [loops.id],
+  }),
+  deliveries: many(deliveries),
+}));
+
+export const deliveriesRelations = relations(deliveries, ({ one }) => ({
+  newsletter: one(newsletters, {
+    fields: [deliveries.newsletterId],
+    references: [newsletters.id],
+  }),
+  job: one(smsJobs, {
+    fields: [deliveries.jobId],
+    references: [smsJobs.id],
+  }),
+  loop: one(loops, {
+    fields: [deliveries.loopId],
+    references: [loops.id],
+  }),
+  user: one(users, {
+    fields: [deliveries.userId],
+    references: [users.id],
+  }),
 }));
 
 // Export schemas
@@ -116,6 +363,26 @@ export const insertUpdateSchema = createInsertSchema(updates);
 export const selectUpdateSchema = createSelectSchema(updates);
 export const insertNewsletterSchema = createInsertSchema(newsletters);
 export const selectNewsletterSchema = createSelectSchema(newsletters);
+export const insertHandledMessageSchema = createInsertSchema(handledMessages);
+export const selectHandledMessageSchema = createSelectSchema(handledMessages);
+export const insertSmsConversationSchema = createInsertSchema(smsConversations);
+export const selectSmsConversationSchema = createSelectSchema(smsConversations);
+export const insertSmsOptOutSchema = createInsertSchema(smsOptOuts);
+export const selectSmsOptOutSchema = createSelectSchema(smsOptOuts);
+export const insertReminderRunSchema = createInsertSchema(reminderRuns);
+export const selectReminderRunSchema = createSelectSchema(reminderRuns);
+export const insertDeliverySchema = createInsertSchema(deliveries);
+export const selectDeliverySchema = createSelectSchema(deliveries);
+export const insertMessageTemplateSchema = createInsertSchema(messageTemplates);
+export const selectMessageTemplateSchema = createSelectSchema(messageTemplates);
+export const insertSmsJobSchema = createInsertSchema(smsJobs);
+export const selectSmsJobSchema = createSelectSchema(smsJobs);
+export const insertGenerationJobSchema = createInsertSchema(generationJobs);
+export const selectGenerationJobSchema = createSelectSchema(generationJobs);
+export const insertGenerationJobSectionSchema = createInsertSchema(generationJobSections);
+export const selectGenerationJobSectionSchema = createSelectSchema(generationJobSections);
+export const insertNewsletterRevisionSchema = createInsertSchema(newsletterRevisions);
+export const selectNewsletterRevisionSchema = createSelectSchema(newsletterRevisions);
 
 // Export types
 export type User = typeof users.$inferSelect;
@@ -127,4 +394,24 @@ export type InsertLoopMember = typeof loopMembers.$inferInsert;
 export type Update = typeof updates.$inferSelect;
 export type InsertUpdate = typeof updates.$inferInsert;
 export type Newsletter = typeof newsletters.$inferSelect;
-export type InsertNewsletter = typeof newsletters.$inferInsert;
\ No newline at end of file
+export type InsertNewsletter = typeof newsletters.$inferInsert;
+export type HandledMessage = typeof handledMessages.$inferSelect;
+export type InsertHandledMessage = typeof handledMessages.$inferInsert;
+export type SmsConversation = typeof smsConversations.$inferSelect;
+export type InsertSmsConversation = typeof smsConversations.$inferInsert;
+export type SmsOptOut = typeof smsOptOuts.$inferSelect;
+export type InsertSmsOptOut = typeof smsOptOuts.$inferInsert;
+export type ReminderRun = typeof reminderRuns.$inferSelect;
+export type InsertReminderRun = typeof reminderRuns.$inferInsert;
+export type Delivery = typeof deliveries.$inferSelect;
+export type InsertDelivery = typeof deliveries.$inferInsert;
+export type MessageTemplate = typeof messageTemplates.$inferSelect;
+export type InsertMessageTemplate = typeof messageTemplates.$inferInsert;
+export type SmsJob = typeof smsJobs.$inferSelect;
+export type InsertSmsJob = typeof smsJobs.$inferInsert;
+export type GenerationJob = typeof generationJobs.$inferSelect;
+export type InsertGenerationJob = typeof generationJobs.$inferInsert;
+export type GenerationJobSection = typeof generationJobSections.$inferSelect;
+export type InsertGenerationJobSection = typeof generationJobSections.$inferInsert;
+export type NewsletterRevision = typeof newsletterRevisions.$inferSelect;
+export type InsertNewsletterRevision = typeof newsletterRevisions.$inferInsert;
\ No newline at end of file
@@ -0,0 +1,241 @@
+import { db } from "@db";
+import { loops, loopMembers, updates, type Loop, type LoopMember, type User } from "@db/schema";
+import { and, desc, eq, inArray, isNull } from "drizzle-orm";
+import { getCurrentPeriod } from "./newsletters";
+
+export type MembershipWithLoop = LoopMember & { loop: Loop | null };
+
+export type SMSCommand =
+  | { name: 'HELP' }
+  | { name: 'LOOPS' }
+  | { name: 'PAUSE' | 'RESUME'; loopCode?: string }
+  | { name: 'UNDO' }
+  | { name: 'STATUS' };
+
+const COMMAND_ALIASES: Record<string, SMSCommand['name']> = {
+  HELP: 'HELP',
+  INFO: 'HELP',
+  COMMANDS: 'HELP',
+  LOOPS: 'LOOPS',
+  'MY LOOPS': 'LOOPS',
+  PAUSE: 'PAUSE',
+  RESUME: 'RESUME',
+  UNPAUSE: 'RESUME',
+  UNDO: 'UNDO',
+  STATUS: 'STATUS',
+};
+
+// A command is a message that is nothing but a keyword, optionally followed by
+// a loop code for PAUSE/RESUME. Anything longer is treated as an update, as is
+// PAUSE/RESUME followed by a word that isn't a loop code ("Pause button").
+export async function parseCommand(body: string): Promise<SMSCommand | null> {
+  const text = body.trim().replace(/[.!?]+$/, '').replace(/\s+/g, ' ').toUpperCase();
+
+  const name = COMMAND_ALIASES[text];
+  if (name) {
+    return { name } as SMSCommand;
+  }
+
+  const withCode = text.match(/^(\S+) (\S+)$/);
+  const keyword = withCode && COMMAND_ALIASES[withCode[1]];
+  if (keyword === 'PAUSE' || keyword === 'RESUME') {
+    const [loop] = await db
+      .select({ id: loops.id })
+      .from(loops)
+      .where(eq(loops.shortCode, withCode![2]))
+      .limit(1);
+
+    return loop ? { name: keyword, loopCode: withCode![2] } : null;
+  }
+
+  return null;
+}
+
+function shortCodeBase(name: string) {
+  const initials = name
+    .split(/\s+/)
+    .map(word => word.replace(/[^a-z0-9]/gi, ''))
+    .filter(Boolean)
+    .map(word => word[0])
+    .join('')
+    .toUpperCase();
+
+  if (initials.length >= 2) {
+    return initials.slice(0, 4);
+  }
+  return name.replace(/[^a-z0-9]/gi, '').slice(0, 3).toUpperCase() || 'LOOP';
+}
+
+function isUniqueViolation(error: unknown) {
+  return typeof error === 'object' && error !== null && 'code' in error && error.code === '23505';
+}
+
+// Give a loop a short code members can text instead of its full name, e.g.
+// "Book Club" becomes BC (or BC2, BC3... if that's taken)
+export async function assignShortCode(loop: Loop): Promise<string> {
+  if (loop.shortCode) {
+    return loop.shortCode;
+  }
+
+  const base = shortCodeBase(loop.name);
+  for (let attempt = 1; attempt < 100; attempt++) {
+    const code = attempt === 1 ? base : `${base}${attempt}`;
+    let updated;
+    try {
+      [updated] = await db
+        .update(loops)
+        .set({ shortCode: code })
+        .where(and(eq(loops.id, loop.id), isNull(loops.shortCode)))
+        .returning();
+    } catch (error) {
+      // Code taken: try the next suffix
+      if (isUniqueViolation(error)) {
+        continue;
+      }
+      throw error;
+    }
+
+    if (updated) {
+      return code;
+    }
+
+    // Another request (or instance) gave the loop a code first; keep that one
+    const [current] = await db
+      .select({ shortCode: loops.shortCode })
+      .from(loops)
+      .where(eq(loops.id, loop.id))
+      .limit(1);
+    if (current?.shortCode) {
+      return current.shortCode;
+    }
+    throw new Error(`Loop ${loop.id} not found`);
+  }
+
+  throw new Error(`Could not assign a short code to loop ${loop.id}`);
+}
+
+// Loops created before short codes existed only get one when someone looks
+// them up, so [CODE] and STOP CODE wouldn't work for them until then
+export async function backfillShortCodes() {
+  try {
+    const uncoded = await db
+      .select()
+      .from(loops)
+      .where(isNull(loops.shortCode));
+
+    for (const loop of uncoded) {
+      await assignShortCode(loop);
+    }
+    if (uncoded.length) {
+      console.log(`Assigned short codes to ${uncoded.length} loops`);
+    }
+  } catch (error) {
+    console.error('Error backfilling loop short codes:', error);
+  }
+}
+
+export function findMembershipByCode(memberships: MembershipWithLoop[], code: string) {
+  return memberships.find(membership => membership.loop?.shortCode?.toLowerCase() === code.toLowerCase());
+}
+
+const HELP_TEXT = `LoopedIn: reply with any text or photos to share an update.
+Start with [CODE] to post to one loop.
+Commands:
+LOOPS - your loops and their codes
+STATUS - updates you've shared this cycle
+PAUSE / RESUME [CODE] - stop or restart reminders
+UNDO - delete your last update
+HELP - this message`;
+
+async function listLoops(memberships: MembershipWithLoop[]) {
+  const lines = [];
+  for (const membership of memberships) {
+    if (!membership.loop) continue;
+    const code = await assignShortCode(membership.loop);
+    lines.push(`${code} - ${membership.loop.name}${membership.remindersPaused ? ' (reminders paused)' : ''}`);
+  }
+  return `Your loops:\n${lines.join('\n')}\n\nStart a message with [CODE] to post to just one loop.`;
+}
+
+async function setRemindersPaused(
+  memberships: MembershipWithLoop[],
+  paused: boolean,
+  loopCode?: string
+) {
+  const targets = loopCode ? [findMembershipByCode(memberships, loopCode)].filter(Boolean) as MembershipWithLoop[] : memberships;
+
+  if (!targets.length) {
+    return `We couldn't find a loop with code "${loopCode}". Reply LOOPS to see your loop codes.`;
+  }
+
+  await db
+    .update(loopMembers)
+    .set({ remindersPaused: paused })
+    .where(inArray(loopMembers.id, targets.map(membership => membership.id)));
+
+  const names = targets.map(membership => membership.loop?.name).join(', ');
+  return paused
+    ? `Reminders paused for ${names}. You can still send updates anytime. Reply RESUME to turn them back on.`
+    : `Reminders resumed for ${names}.`;
+}
+
+// Remove the member's most recent update, as long as it hasn't gone out in a newsletter yet
+async function undoLastUpdate(user: User, memberships: MembershipWithLoop[]) {
+  const loopIds = memberships.map(membership => membership.loopId).filter((id): id is number => id !== null);
+  if (!loopIds.length) {
+    return "You don't have any updates to undo.";
+  }
+
+  const lastUpdate = await db.query.updates.findFirst({
+    where: and(eq(updates.userId, user.id), inArray(updates.loopId, loopIds)),
+    with: {
+      loop: true,
+      newsletter: true,
+    },
+    orderBy: desc(updates.createdAt),
+  });
+
+  if (!lastUpdate) {
+    return "You don't have any updates to undo.";
+  }
+
+  if (lastUpdate.newsletter?.status === 'sent') {
+    return `Your last update was already published in ${lastUpdate.loop?.name}'s newsletter, so it can't be undone.`;
+  }
+
+  await db.delete(updates).where(eq(updates.id, lastUpdate.id));
+
+  const preview = lastUpdate.content.length > 40 ? `${lastUpdate.content.slice(0, 40)}…` : lastUpdate.content;
+  return `Deleted your last update to ${lastUpdate.loop?.name}${preview ? `: "${preview}"` : ''}`;
+}
+
+async function describeStatus(user: User, memberships: MembershipWithLoop[]) {
+  const lines = [];
+  for (const membership of memberships) {
+    if (!membership.loop) continue;
+    const { updates: periodUpdates } = await getCurrentPeriod(membership.loop.id);
+    const shared = periodUpdates.filter(update => update.userId === user.id).length;
+    lines.push(`${membership.loop.name}: ${shared} update${shared === 1 ? '' : 's'}`);
+  }
+  return `This cycle you've shared:\n${lines.join('\n')}`;
+}
+
+// Run a command and return the text to reply with
+export async function runCommand(command: SMSCommand, user: User, memberships: MembershipWithLoop[]): Promise<string> {
+  switch (command.name) {
+    case 'HELP':
+      return HELP_TEXT;
+    case 'LOOPS':
+      return listLoops(memberships);
+    case 'PAUSE':
+      return setRemindersPaused(memberships, true, command.loopCode);
+    case 'RESUME':
+      return setRemindersPaused(memberships, false, command.loopCode);
+    case 'UNDO':
+      return undoLastUpdate(user, memberships);
+    case 'STATUS':
+      return describeStatus(user, memberships);
+  }
+}
+
+backfillShortCodes();
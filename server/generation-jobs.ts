@@ -0,0 +1,312 @@
+import { db } from "@db";
+import {
+  generationJobs,
+  generationJobSections,
+  loops,
+  updates,
+  type GenerationJobOptions,
+  type Loop,
+} from "@db/schema";
+import { and, asc, eq, inArray, isNull, lt, lte, or } from "drizzle-orm";
+import { addSeconds, subMinutes } from 'date-fns';
+import {
+  assembleNewsletter,
+  buildSectionPrompts,
+  generateNewsletterSection,
+  type NewsletterPart,
+} from "./newsletter-generator";
+import { prepareDraft, saveNewsletterDraft, type UpdateWithUser } from "./newsletters";
+
+const MAX_ATTEMPTS = parseInt(process.env.GENERATION_MAX_ATTEMPTS || '3');
+// First retry waits this long, doubling with each attempt after that
+const RETRY_BASE_SECONDS = 15;
+// Sections generated at once, across all jobs
+const CONCURRENCY = 4;
+// A section still 'running' after this long was interrupted by a restart.
+// Unlike a text message, generating it again is harmless.
+const STUCK_MINUTES = 10;
+
+// Queue a newsletter for the given updates; the worker below generates it
+export async function createGenerationJob(
+  loop: Loop,
+  issueUpdates: UpdateWithUser[],
+  options: GenerationJobOptions,
+  createdById: number
+) {
+  const { newsletterUpdates, generatorOptions } = await prepareDraft(loop, issueUpdates, options);
+  const prompts = buildSectionPrompts(loop.name, newsletterUpdates, loop.vibe, generatorOptions);
+
+  const [job] = await db
+    .insert(generationJobs)
+    .values({
+      loopId: loop.id,
+      createdById,
+      updateIds: issueUpdates.map(update => update.id),
+      options,
+    })
+    .returning();
+
+  await db
+    .insert(generationJobSections)
+    .values(prompts.map((prompt, position) => ({
+      jobId: job.id,
+      position,
+      prompt,
+      nextAttemptAt: new Date(),
+    })));
+
+  return job;
+}
+
+export async function getGenerationJobProgress(jobId: number) {
+  const job = await db.query.generationJobs.findFirst({
+    where: eq(generationJobs.id, jobId),
+    with: {
+      sections: {
+        columns: {
+          position: true,
+          status: true,
+          attempts: true,
+          error: true,
+        },
+        orderBy: asc(generationJobSections.position),
+      },
+    },
+  });
+
+  if (!job) {
+    return null;
+  }
+
+  return {
+    id: job.id,
+    loopId: job.loopId,
+    status: job.status,
+    total: job.sections.length,
+    completed: job.sections.filter(section => section.status === 'succeeded').length,
+    failed: job.sections.filter(section => section.status === 'failed').length,
+    sections: job.sections,
+    newsletterId: job.newsletterId,
+    error: job.error,
+    done: job.status === 'succeeded' || job.status === 'failed',
+    createdAt: job.createdAt,
+  };
+}
+
+// Give a failed job's failed sections another go; sections that worked are
+// kept. A job that failed while being put together is assembled again.
+export async function retryGenerationJob(jobId: number) {
+  const [job] = await db
+    .update(generationJobs)
+    .set({ status: 'running', error: null, assembledAt: null, updatedAt: new Date() })
+    .where(and(eq(generationJobs.id, jobId), eq(generationJobs.status, 'failed')))
+    .returning();
+
+  if (!job) {
+    return null;
+  }
+
+  await db
+    .update(generationJobSections)
+    .set({ status: 'queued', attempts: 0, error: null, nextAttemptAt: new Date(), updatedAt: new Date() })
+    .where(and(eq(generationJobSections.jobId, jobId), eq(generationJobSections.status, 'failed')));
+
+  return job;
+}
+
+// Take a queued section for this instance. The status condition makes the
+// update a no-op if another instance claimed it first.
+async function claimSection(id: number) {
+  const [claimed] = await db
+    .update(generationJobSections)
+    .set({ status: 'running', updatedAt: new Date() })
+    .where(and(eq(generationJobSections.id, id), eq(generationJobSections.status, 'queued')))
+    .returning();
+
+  return claimed ?? null;
+}
+
+async function runSection(section: typeof generationJobSections.$inferSelect) {
+  const job = await db.query.generationJobs.findFirst({
+    where: eq(generationJobs.id, section.jobId),
+    with: {
+      loop: true,
+    },
+  });
+  if (!job) {
+    return;
+  }
+
+  if (job.status === 'queued') {
+    await db
+      .update(generationJobs)
+      .set({ status: 'running', updatedAt: new Date() })
+      .where(and(eq(generationJobs.id, job.id), eq(generationJobs.status, 'queued')));
+  }
+
+  const attempts = section.attempts + 1;
+  try {
+    const result = await generateNewsletterSection(section.prompt, job.loop.llmProvider);
+    await db
+      .update(generationJobSections)
+      .set({ status: 'succeeded', result, attempts, error: null, nextAttemptAt: null, updatedAt: new Date() })
+      .where(eq(generationJobSections.id, section.id));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const retry = attempts < MAX_ATTEMPTS;
+    if (retry) {
+      console.warn(`Section ${section.position + 1} of generation job ${job.id} failed (attempt ${attempts}), retrying: ${message}`);
+    } else {
+      console.error(`Section ${section.position + 1} of generation job ${job.id} failed after ${attempts} attempts: ${message}`);
+    }
+
+    await db
+      .update(generationJobSections)
+      .set({
+        status: retry ? 'queued' : 'failed',
+        error: message,
+        attempts,
+        nextAttemptAt: retry ? addSeconds(new Date(), RETRY_BASE_SECONDS * 2 ** (attempts - 1)) : null,
+        updatedAt: new Date(),
+      })
+      .where(eq(generationJobSections.id, section.id));
+
+    if (!retry) {
+      await db
+        .update(generationJobs)
+        .set({
+          status: 'failed',
+          error: `Section ${section.position + 1} couldn't be generated. Retry to try the failed sections again.`,
+          updatedAt: new Date(),
+        })
+        .where(eq(generationJobs.id, job.id));
+    }
+  }
+}
+
+// Turn a job whose sections have all succeeded into a draft
+async function assembleJob(jobId: number) {
+  const [job] = await db
+    .update(generationJobs)
+    .set({ assembledAt: new Date(), updatedAt: new Date() })
+    .where(and(eq(generationJobs.id, jobId), isNull(generationJobs.assembledAt)))
+    .returning();
+  if (!job) {
+    return;
+  }
+
+  try {
+    const loop = await db.query.loops.findFirst({
+      where: eq(loops.id, job.loopId),
+    });
+    if (!loop) {
+      throw new Error("Loop not found");
+    }
+
+    const sections = await db
+      .select()
+      .from(generationJobSections)
+      .where(eq(generationJobSections.jobId, job.id))
+      .orderBy(asc(generationJobSections.position));
+
+    const found = job.updateIds.length
+      ? await db.query.updates.findMany({
+          where: inArray(updates.id, job.updateIds),
+          with: {
+            user: true,
+          },
+        })
+      : [];
+
+    // Members can UNDO an update while the job runs. The sections were
+    // written from prompts that quoted it, so none of them can be used.
+    if (found.length < job.updateIds.length) {
+      throw new Error("Some updates were deleted while this newsletter was being generated. Start a new draft instead.");
+    }
+    const byId = new Map(found.map(update => [update.id, update]));
+    const issueUpdates = job.updateIds.map(updateId => byId.get(updateId)!);
+    const parts = sections.map(section => section.result as NewsletterPart);
+
+    const { newsletterUpdates, generatorOptions } = await prepareDraft(loop, issueUpdates, job.options);
+    const content = assembleNewsletter(loop.name, parts, newsletterUpdates, generatorOptions);
+    const newsletter = await saveNewsletterDraft(loop, issueUpdates, content, job.createdById);
+
+    await db
+      .update(generationJobs)
+      .set({ status: 'succeeded', newsletterId: newsletter.id, updatedAt: new Date() })
+      .where(eq(generationJobs.id, job.id));
+  } catch (error) {
+    console.error(`Failed to assemble generation job ${job.id}:`, error);
+    await db
+      .update(generationJobs)
+      .set({
+        status: 'failed',
+        error: error instanceof Error ? error.message : "Failed to put the newsletter together",
+        updatedAt: new Date(),
+      })
+      .where(eq(generationJobs.id, job.id));
+  }
+}
+
+let processing = false;
+
+// Generate whatever sections are due, then turn finished jobs into drafts.
+// A tick that finds the previous one still running does nothing.
+export async function processGenerationJobs() {
+  if (processing) {
+    return;
+  }
+  processing = true;
+
+  try {
+    await db
+      .update(generationJobSections)
+      .set({ status: 'queued', error: 'Interrupted while generating', nextAttemptAt: new Date(), updatedAt: new Date() })
+      .where(and(
+        eq(generationJobSections.status, 'running'),
+        lt(generationJobSections.updatedAt, subMinutes(new Date(), STUCK_MINUTES))
+      ));
+
+    const due = await db
+      .select({ id: generationJobSections.id })
+      .from(generationJobSections)
+      .innerJoin(generationJobs, eq(generationJobs.id, generationJobSections.jobId))
+      .where(and(
+        eq(generationJobSections.status, 'queued'),
+        or(isNull(generationJobSections.nextAttemptAt), lte(generationJobSections.nextAttemptAt, new Date())),
+        inArray(generationJobs.status, ['queued', 'running'])
+      ))
+      .orderBy(asc(generationJobSections.id))
+      .limit(CONCURRENCY);
+
+    const claimed = [];
+    for (const { id } of due) {
+      const section = await claimSection(id);
+      if (section) {
+        claimed.push(section);
+      }
+    }
+    // Sections are independent LLM calls, so run them side by side
+    await Promise.all(claimed.map(runSection));
+
+    const running = await db.query.generationJobs.findMany({
+      where: and(eq(generationJobs.status, 'running'), isNull(generationJobs.assembledAt)),
+      with: {
+        sections: {
+          columns: { status: true },
+        },
+      },
+    });
+    for (const job of running) {
+      if (job.sections.every(section => section.status === 'succeeded')) {
+        await assembleJob(job.id);
+      }
+    }
+  } catch (error) {
+    console.error('Error processing newsletter generation jobs:', error);
+  } finally {
+    processing = false;
+  }
+}
+
+setInterval(processGenerationJobs, 1000 * 5);
@@ -0,0 +1,324 @@
+import { db } from "@db";
+import { handledMessages, loopMembers, smsConversations, updates, users, type SmsConversation, type User } from "@db/schema";
+import { eq, lt } from "drizzle-orm";
+import { addMinutes, subDays } from 'date-fns';
+import { parseCommand, runCommand, findMembershipByCode, type MembershipWithLoop } from "./commands";
+import { parseOptOutKeyword, applyOptOutKeyword } from "./optouts";
+import { processAndSaveMedia } from "./storage";
+
+// How long a "Which loop?" question stays open for a numbered reply
+const CONVERSATION_MINUTES = parseInt(process.env.SMS_CONVERSATION_MINUTES || '30');
+// Twilio gives up retrying a webhook long before this
+const HANDLED_MESSAGE_DAYS = 7;
+// Expired questions are kept this long so a late answer still gets "that took too long"
+const EXPIRED_CONVERSATION_DAYS = 1;
+
+export interface InboundMessage {
+  from: string;
+  body: string;
+  media: { url: string; contentType: string }[];
+  messageSid?: string;
+}
+
+export type InboundResult =
+  | { reply: string }
+  | { error: string; status: number };
+
+// Copy the sender's media to our storage; Twilio media URLs need credentials
+// and don't last, so this has to happen before an update is held for later
+async function saveMedia(media: InboundMessage['media'], userId: number) {
+  if (!media.length) {
+    return [];
+  }
+
+  try {
+    console.log(`Processing ${media.length} media files`);
+    const processedMediaUrls = await Promise.all(
+      media.map(async ({ url, contentType }) => {
+        console.log('Processing media:', {
+          url,
+          contentType,
+          userId
+        });
+        return processAndSaveMedia(url, contentType);
+      })
+    );
+    console.log('Successfully processed all media:', processedMediaUrls);
+    return processedMediaUrls;
+  } catch (error) {
+    console.error('Failed to process media:', error);
+    if (error instanceof Error) {
+      console.error('Error details:', {
+        message: error.message,
+        stack: error.stack,
+        name: error.name
+      });
+    }
+    // Continue without the media if upload fails
+    return [];
+  }
+}
+
+function thanksReply(loopName: string) {
+  return `Thanks for your update to ${loopName}!`;
+}
+
+async function saveUpdate(
+  user: User,
+  membership: MembershipWithLoop,
+  content: string,
+  mediaUrls: string[],
+  messageSid?: string
+) {
+  const [update] = await db
+    .insert(updates)
+    .values({
+      loopId: membership.loop!.id,
+      userId: user.id,
+      content,
+      mediaUrls,
+      messageSid,
+    })
+    .onConflictDoNothing({ target: updates.messageSid })
+    .returning();
+
+  // Lost the race with a concurrent retry of the same message
+  if (!update) {
+    console.log(`Update for message ${messageSid} was already saved`);
+  } else {
+    console.log('Saved update:', {
+      updateId: update.id,
+      loopId: membership.loop!.id,
+      userId: user.id,
+      mediaCount: mediaUrls.length,
+      mediaUrls
+    });
+  }
+
+  return thanksReply(membership.loop!.name);
+}
+
+// A leading [Loop Name] or [CODE] picks the loop and isn't part of the update
+function parseLoopTag(body: string) {
+  const match = body.match(/^\s*\[(.*?)\]\s*/);
+  if (!match) {
+    return { tag: null, content: body };
+  }
+  return { tag: match[1].trim(), content: body.slice(match[0].length) };
+}
+
+function findMembership(memberships: MembershipWithLoop[], nameOrCode: string) {
+  return memberships.find(membership => membership.loop?.name.toLowerCase() === nameOrCode.toLowerCase())
+    ?? findMembershipByCode(memberships, nameOrCode);
+}
+
+// Answer to an open "Which loop?" question: the option number, or a loop name or code
+function resolveConversationReply(conversation: SmsConversation, memberships: MembershipWithLoop[], body: string) {
+  const text = body.trim().replace(/^\[(.*)\]$/, '$1').replace(/[.)]$/, '');
+  if (!text) {
+    return null;
+  }
+
+  if (/^\d+$/.test(text)) {
+    const loopId = conversation.loopIds[parseInt(text) - 1];
+    return memberships.find(membership => membership.loopId === loopId) ?? null;
+  }
+
+  const membership = findMembership(memberships, text);
+  return membership && conversation.loopIds.includes(membership.loopId!) ? membership : null;
+}
+
+function snippet(text: string) {
+  const trimmed = text.trim();
+  return trimmed.length > 40 ? `${trimmed.slice(0, 40)}...` : trimmed || 'a photo';
+}
+
+function whichLoopQuestion(conversation: SmsConversation, memberships: MembershipWithLoop[]) {
+  const choices = conversation.loopIds
+    .map((loopId, i) => `${i + 1}) ${memberships.find(membership => membership.loopId === loopId)?.loop?.name}`)
+    .join(' ');
+  return `Which loop? ${choices}\nReply with the number.`;
+}
+
+async function askWhichLoop(
+  user: User,
+  memberships: MembershipWithLoop[],
+  content: string,
+  mediaUrls: string[],
+  messageSid?: string
+) {
+  const options = memberships.filter(membership => membership.loop);
+
+  // Only one question open per member; a new untargeted message replaces the
+  // old one, so say so if its update was still waiting
+  const [previous] = await db
+    .delete(smsConversations)
+    .where(eq(smsConversations.userId, user.id))
+    .returning();
+  const [conversation] = await db
+    .insert(smsConversations)
+    .values({
+      userId: user.id,
+      pendingBody: content,
+      pendingMediaUrls: mediaUrls,
+      loopIds: options.map(membership => membership.loop!.id),
+      messageSid,
+      expiresAt: addMinutes(new Date(), CONVERSATION_MINUTES),
+    })
+    .returning();
+
+  const question = whichLoopQuestion(conversation, memberships);
+  if (previous && previous.expiresAt > new Date()) {
+    return `Your previous message ("${snippet(previous.pendingBody)}") wasn't saved. Send it again if you still want to share it.\n\n${question}`;
+  }
+  return question;
+}
+
+// Turn an inbound text into a reply: opt-out keywords, commands, answers to
+// "Which loop?", and otherwise a new update for one of the sender's loops
+async function respondToMessage(message: InboundMessage): Promise<InboundResult> {
+  const body = message.body || '';
+
+  // Clean up the phone number (remove the '+' prefix if present)
+  const phoneNumber = message.from.startsWith('+') ? message.from.substring(1) : message.from;
+
+  // STOP/START work for any number, member or not, and never become updates
+  const optOutKeyword = message.media.length === 0 ? await parseOptOutKeyword(body) : null;
+  if (optOutKeyword) {
+    return { reply: await applyOptOutKeyword(phoneNumber, optOutKeyword) };
+  }
+
+  // Find the user by phone number
+  const [user] = await db
+    .select()
+    .from(users)
+    .where(eq(users.phoneNumber, phoneNumber))
+    .limit(1);
+
+  if (!user) {
+    console.warn(`Received message from unknown number: ${phoneNumber}`);
+    return { error: "User not found", status: 404 };
+  }
+
+  // Find all loops this user is a member of
+  const userLoops = await db.query.loopMembers.findMany({
+    where: eq(loopMembers.userId, user.id),
+    with: {
+      loop: true,
+    },
+  });
+
+  if (!userLoops.length) {
+    console.warn(`User ${user.id} is not a member of any loops`);
+    return { error: "No loops found for user", status: 404 };
+  }
+
+  // Keyword commands (HELP, LOOPS, PAUSE...) get a reply instead of becoming an update
+  const command = message.media.length === 0 ? await parseCommand(body) : null;
+  if (command) {
+    console.log(`Running SMS command ${command.name} for user ${user.id}`);
+    return { reply: await runCommand(command, user, userLoops) };
+  }
+
+  // A reply to an earlier "Which loop?" files the update that's been waiting
+  const [conversation] = await db
+    .select()
+    .from(smsConversations)
+    .where(eq(smsConversations.userId, user.id))
+    .limit(1);
+
+  if (conversation && message.media.length === 0) {
+    const choice = resolveConversationReply(conversation, userLoops, body);
+    if (choice) {
+      await db.delete(smsConversations).where(eq(smsConversations.id, conversation.id));
+
+      if (conversation.expiresAt < new Date()) {
+        return { reply: "Sorry, that took too long and your update wasn't saved. Please send it again." };
+      }
+      return {
+        reply: await saveUpdate(user, choice, conversation.pendingBody, conversation.pendingMediaUrls, message.messageSid),
+      };
+    }
+  }
+
+  const { tag, content } = parseLoopTag(body);
+  if (tag) {
+    const target = findMembership(userLoops, tag);
+    if (!target?.loop) {
+      console.warn(`Specified loop not found: ${tag}`);
+      return { reply: `We couldn't find a loop called "${tag}". Reply LOOPS to see your loops and their codes.` };
+    }
+    const mediaUrls = await saveMedia(message.media, user.id);
+    return { reply: await saveUpdate(user, target, content, mediaUrls, message.messageSid) };
+  }
+
+  const mediaUrls = await saveMedia(message.media, user.id);
+
+  if (userLoops.length === 1) {
+    return { reply: await saveUpdate(user, userLoops[0], body, mediaUrls, message.messageSid) };
+  }
+
+  // In several loops and no target given: ask rather than post everywhere
+  return { reply: await askWhichLoop(user, userLoops, body, mediaUrls, message.messageSid) };
+}
+
+// Twilio retries webhooks it didn't get an answer to. The MessageSid is
+// claimed before anything happens, so a retry gets the first reply back and
+// nothing (an UNDO, a STOP, an update) runs twice.
+export async function handleInboundMessage(message: InboundMessage): Promise<InboundResult> {
+  const { messageSid } = message;
+  if (!messageSid) {
+    return respondToMessage(message);
+  }
+
+  const [claimed] = await db
+    .insert(handledMessages)
+    .values({ messageSid })
+    .onConflictDoNothing()
+    .returning();
+
+  if (!claimed) {
+    console.log(`Ignoring retried webhook for message ${messageSid}`);
+    const [handled] = await db
+      .select()
+      .from(handledMessages)
+      .where(eq(handledMessages.messageSid, messageSid))
+      .limit(1);
+    return { reply: handled?.reply ?? "Got it, we're still working on your message." };
+  }
+
+  try {
+    const result = await respondToMessage(message);
+    if ('error' in result) {
+      // Nothing was done, so let a retry try again
+      await db.delete(handledMessages).where(eq(handledMessages.messageSid, messageSid));
+    } else {
+      await db
+        .update(handledMessages)
+        .set({ reply: result.reply })
+        .where(eq(handledMessages.messageSid, messageSid));
+    }
+    return result;
+  } catch (error) {
+    await db.delete(handledMessages).where(eq(handledMessages.messageSid, messageSid));
+    throw error;
+  }
+}
+
+// Forget handled MessageSids once Twilio can no longer retry them, and
+// "Which loop?" questions that expired a while ago
+export async function pruneInboundState() {
+  try {
+    await db
+      .delete(handledMessages)
+      .where(lt(handledMessages.createdAt, subDays(new Date(), HANDLED_MESSAGE_DAYS)));
+
+    await db
+      .delete(smsConversations)
+      .where(lt(smsConversations.expiresAt, subDays(new Date(), EXPIRED_CONVERSATION_DAYS)));
+  } catch (error) {
+    console.error('Error pruning inbound message state:', error);
+  }
+}
+
+setInterval(pruneInboundState, 1000 * 60 * 60);
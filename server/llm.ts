@@ -0,0 +1,117 @@
+import OpenAI from 'openai';
+import Anthropic from '@anthropic-ai/sdk';
+
+export interface CompletionRequest {
+  prompt: string;
+  maxTokens: number;
+  // Ask for a JSON object; the prompt must still describe its shape
+  json?: boolean;
+}
+
+// Anything that can turn a prompt into text. The newsletter generator only
+// talks to this, so providers can be swapped per deployment or per loop.
+export interface LLMProvider {
+  name: string;
+  complete(request: CompletionRequest): Promise<string>;
+}
+
+export function createOpenAIProvider(apiKey: string): LLMProvider {
+  const openai = new OpenAI({ apiKey });
+
+  return {
+    name: 'openai',
+    async complete({ prompt, maxTokens, json }) {
+      const completion = await openai.chat.completions.create({
+        model: "gpt-4-turbo-preview",
+        messages: [{ role: "user", content: prompt }],
+        temperature: 0.7,
+        max_tokens: maxTokens,
+        ...(json ? { response_format: { type: "json_object" as const } } : {}),
+      });
+
+      return completion.choices[0].message.content || '';
+    },
+  };
+}
+
+export function createAnthropicProvider(apiKey: string): LLMProvider {
+  const anthropic = new Anthropic({ apiKey });
+
+  return {
+    name: 'anthropic',
+    async complete({ prompt, maxTokens }) {
+      const response = await anthropic.messages.create({
+        model: 'claude-3-5-sonnet-20241022',
+        max_tokens: maxTokens,
+        messages: [{ role: 'user', content: prompt }],
+      });
+
+      return response.content[0].type === 'text' ? response.content[0].text : '';
+    },
+  };
+}
+
+// Offline stand-in: no API calls, and the same prompt always gives the same
+// answer. It echoes back the material it was given: for JSON, the example
+// in the prompt's ```json block, otherwise the first block of text after the
+// instructions.
+export function createMockProvider(): LLMProvider {
+  return {
+    name: 'mock',
+    async complete({ prompt, json }) {
+      if (json) {
+        return prompt.match(/```json\n([\s\S]*?)\n```/)?.[1] ?? '{}';
+      }
+
+      const blocks = prompt.split(/\n\s*\n/).map(block => block.trim()).filter(Boolean);
+      return blocks[1] ?? blocks[0] ?? '';
+    },
+  };
+}
+
+// A factory returns null when its credentials are missing
+const providerFactories: Record<string, () => LLMProvider | null> = {
+  openai: () => process.env.OPENAI_API_KEY ? createOpenAIProvider(process.env.OPENAI_API_KEY) : null,
+  anthropic: () => process.env.ANTHROPIC_API_KEY ? createAnthropicProvider(process.env.ANTHROPIC_API_KEY) : null,
+  // Only used in production when asked for explicitly
+  mock: () => process.env.NODE_ENV !== 'production' || process.env.LLM_PROVIDER === 'mock' ? createMockProvider() : null,
+};
+
+// Providers are created on first use
+const providers = new Map<string, LLMProvider | null>();
+
+export function registerLLMProvider(name: string, factory: () => LLMProvider | null) {
+  providerFactories[name] = factory;
+  providers.delete(name);
+}
+
+function getProviderByName(name: string) {
+  if (!providers.has(name)) {
+    providers.set(name, providerFactories[name]?.() ?? null);
+  }
+  return providers.get(name) ?? null;
+}
+
+export function isLLMProviderName(name: unknown): name is string {
+  return typeof name === 'string' && name in providerFactories;
+}
+
+// Providers that are set up in this deployment, for loops to choose from
+export function getAvailableLLMProviders() {
+  return Object.keys(providerFactories).filter(name => getProviderByName(name) !== null);
+}
+
+// The loop's choice if it has one and it's available, then LLM_PROVIDER, then
+// whichever API key is configured, and the mock provider outside production
+export function getLLMProvider(preferred?: string | null): LLMProvider {
+  const candidates = [preferred, process.env.LLM_PROVIDER, 'openai', 'anthropic', 'mock'];
+
+  for (const name of candidates) {
+    const provider = name ? getProviderByName(name) : null;
+    if (provider) {
+      return provider;
+    }
+  }
+
+  throw new Error('No newsletter generation provider is configured');
+}
@@ -0,0 +1,130 @@
+import { parseDocument, DomUtils } from 'htmlparser2';
+import { isComment, isTag, isText, type ChildNode, type Element } from 'domhandler';
+
+// The server's side of client/src/lib/newsletter-blocks.ts: splits stored
+// newsletter HTML into the same blocks, in the same order, so the editor can
+// point at a block by its index and the server can read it from the saved draft.
+
+export type NewsletterBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'update'; userName: string; text: string }
+  | { type: 'other' };
+
+// Text of an element whose only children are text and <br>s, or null if it has other markup
+function plainText(element: Element): string | null {
+  let text = '';
+  for (const child of element.children) {
+    if (isText(child)) {
+      text += child.data;
+    } else if (isTag(child) && child.name === 'br') {
+      text += '\n';
+    } else if (!isComment(child)) {
+      return null;
+    }
+  }
+  return text.replace(/[ \t]*\n[ \t]*/g, '\n').trim();
+}
+
+function hasClass(element: Element, className: string) {
+  return (DomUtils.getAttributeValue(element, 'class') ?? '').split(/\s+/).includes(className);
+}
+
+function parseUpdate(element: Element): NewsletterBlock {
+  const content = DomUtils.findOne(child => hasClass(child, 'update-content'), element.children);
+  const paragraphs = content ? DomUtils.getElementsByTagName('p', content) : [];
+
+  return {
+    type: 'update',
+    userName: DomUtils.getAttributeValue(element, 'data-member') ?? '',
+    text: paragraphs.length
+      ? paragraphs.map(p => plainText(p) ?? DomUtils.textContent(p).trim()).join('\n\n')
+      : content ? DomUtils.textContent(content).trim() : '',
+  };
+}
+
+function parseNode(node: ChildNode): NewsletterBlock[] {
+  if (isText(node)) {
+    const text = node.data.trim();
+    return text ? [{ type: 'paragraph', text }] : [];
+  }
+  if (!isTag(node)) {
+    return [];
+  }
+
+  const className = DomUtils.getAttributeValue(node, 'class') ?? '';
+
+  // Plain sections only group blocks; styled ones (sign-off...) are kept whole
+  if (node.name === 'section' && !className) {
+    return node.children.flatMap(parseNode);
+  }
+
+  if (node.name === 'h1' || node.name === 'h2' || node.name === 'h3') {
+    const text = plainText(node);
+    if (text !== null) {
+      return [{ type: 'heading', level: Number(node.name[1]), text }];
+    }
+  }
+
+  if (node.name === 'p') {
+    const text = plainText(node);
+    if (text !== null) {
+      return [{ type: 'paragraph', text }];
+    }
+  }
+
+  if (node.name === 'div' && hasClass(node, 'update-details')) {
+    return [parseUpdate(node)];
+  }
+
+  return [{ type: 'other' }];
+}
+
+export function parseNewsletterBlocks(html: string): NewsletterBlock[] {
+  const document = parseDocument(html);
+  // Generated newsletters keep their content in the <article>; anything else is all content
+  const container = DomUtils.findOne(element => element.name === 'article', document.children)
+    ?? DomUtils.findOne(element => element.name === 'body', document.children)
+    ?? document;
+  return container.children.flatMap(parseNode);
+}
+
+function isSectionHeading(block: NewsletterBlock) {
+  return block.type === 'heading' && block.level <= 2;
+}
+
+// What a rewrite works from: a section's heading and the paragraphs straight
+// after it, or a single paragraph, plus the member updates in the surrounding
+// section. Null if the block isn't a heading or paragraph.
+export function getRewriteSource(blocks: NewsletterBlock[], index: number) {
+  const block = blocks[index];
+  if (!block || (block.type !== 'heading' && block.type !== 'paragraph')) {
+    return null;
+  }
+
+  let start = index;
+  while (start > 0 && !isSectionHeading(blocks[start])) {
+    start--;
+  }
+  let end = start + 1;
+  while (end < blocks.length && !isSectionHeading(blocks[end])) {
+    end++;
+  }
+  const updates = blocks.slice(start, end).flatMap(other =>
+    other.type === 'update' ? [{ userName: other.userName, text: other.text }] : []
+  );
+
+  if (block.type === 'paragraph') {
+    return { heading: '', body: block.text, updates };
+  }
+
+  const body: string[] = [];
+  for (const other of blocks.slice(index + 1)) {
+    if (other.type !== 'paragraph') {
+      break;
+    }
+    body.push(other.text);
+  }
+
+  return { heading: block.text, body: body.join('\n\n'), updates };
+}
@@ -0,0 +1,52 @@
+// Fixture check for buildSectionPrompt. Run with: npx tsx server/newsletter-generator.check.ts
+import assert from 'node:assert/strict';
+import { buildSectionPrompt, type SectionPromptInput } from './newsletter-generator';
+
+const fixture: SectionPromptInput = {
+  loopName: 'Book Club',
+  loopContext: '  Friends from college who read one book a month  ',
+  updates: [
+    { userName: 'Sam', content: 'Finished Middlemarch at last!', userContext: "Maya's sister, lives in Denver" },
+    { userName: 'Maya', content: 'Two photos from the lake.', mediaUrls: ['a.jpg', 'b.jpg'] },
+    { userName: 'Sam', content: 'Also started a garden.', mediaUrls: ['c.jpg'], userContext: 'Ignored, Sam already has context' },
+  ],
+  firstUpdateId: 4,
+  vibe: ['warm', 'playful'],
+  sectionIndex: 1,
+  totalSections: 3,
+};
+
+const prompt = buildSectionPrompt(fixture);
+
+// Pure: the same input gives the same text
+assert.equal(buildSectionPrompt(fixture), prompt);
+
+assert.ok(prompt.startsWith('Write part 2 of 3 of the newsletter for the group "Book Club" with a warm, playful tone.'));
+assert.ok(prompt.includes('About the group:\nFriends from college who read one book a month\n'));
+
+// Updates are numbered from firstUpdateId, with photo counts
+assert.ok(prompt.includes('[4] Sam:\nFinished Middlemarch at last!'));
+assert.ok(prompt.includes('[5] Maya (2 photos):\nTwo photos from the lake.'));
+assert.ok(prompt.includes('[6] Sam (1 photo):\nAlso started a garden.'));
+
+// One context line per contributor, the first one given
+assert.ok(prompt.includes("About the contributors (use this to introduce people correctly):\n- Sam: Maya's sister, lives in Denver\n"));
+assert.ok(!prompt.includes('Ignored, Sam already has context'));
+
+// The example answer lists every update ID, and a middle part has no title or closing question
+assert.ok(prompt.includes('"updateIds": [\n        4,\n        5,\n        6\n      ]'));
+assert.ok(!prompt.includes('"title"'));
+assert.ok(!prompt.includes('"closingQuestion"'));
+assert.ok(prompt.includes('- Leave out title, intro and closingQuestion'));
+
+// The first and last parts ask for the pieces around the sections
+const single = buildSectionPrompt({ ...fixture, loopContext: null, updates: [fixture.updates[1]], sectionIndex: 0, totalSections: 1 });
+assert.ok(single.includes('"title": "Book Club Newsletter"'));
+assert.ok(single.includes('"closingQuestion": ""'));
+assert.ok(single.includes('- title: a catchy overall title'));
+assert.ok(single.includes('- closingQuestion: a fun prompt'));
+assert.ok(!single.includes('Leave out title'));
+assert.ok(!single.includes('About the group'));
+assert.ok(!single.includes('About the contributors'));
+
+console.log('buildSectionPrompt: all checks passed');
@@ -0,0 +1,410 @@
+import { z } from 'zod';
+import { getLLMProvider, type LLMProvider } from './llm';
+import { renderNewsletter } from './newsletter-render';
+
+export interface NewsletterUpdate {
+  content: string;
+  userName: string;
+  mediaUrls?: string[];
+  // What the loop creator noted about this member, e.g. "Sam's sister, lives in Denver"
+  userContext?: string | null;
+}
+
+export interface NewsletterOptions {
+  // What the group is about, from the loop's settings
+  loopContext?: string | null;
+  customHeader?: string;
+  customClosing?: string;
+  // Name of the LLM provider to use, e.g. the loop's choice; falls back to the deployment default
+  provider?: string | null;
+}
+
+// What the model writes for each batch of updates. Updates are referred to
+// by ID (their 1-based position in the issue) rather than copied, so the
+// members' own words, names and photos are always rendered by us.
+const sectionSchema = z.object({
+  heading: z.string(),
+  body: z.string().default(''),
+  updateIds: z.array(z.number().int()).default([]),
+  quotes: z.array(z.object({
+    updateId: z.number().int(),
+    text: z.string(),
+  })).default([]),
+});
+
+const partSchema = z.object({
+  title: z.string().optional(),
+  intro: z.string().optional(),
+  sections: z.array(sectionSchema),
+  closingQuestion: z.string().optional(),
+});
+
+export type NewsletterSection = z.infer<typeof sectionSchema>;
+export type NewsletterPart = z.infer<typeof partSchema>;
+
+export interface NewsletterDocument {
+  title: string;
+  intro: string;
+  sections: NewsletterSection[];
+  closingQuestion: string;
+}
+
+// How many times to ask the model before giving up on answers that aren't a valid document
+const MAX_GENERATION_ATTEMPTS = 2;
+
+// Helper function to split updates into batches
+function splitUpdatesToBatches(updates: NewsletterUpdate[], batchSize: number = 10): NewsletterUpdate[][] {
+  const batches: NewsletterUpdate[][] = [];
+  for (let i = 0; i < updates.length; i += batchSize) {
+    batches.push(updates.slice(i, i + batchSize));
+  }
+  return batches;
+}
+
+export interface SectionPromptInput {
+  loopName: string;
+  loopContext?: string | null;
+  updates: NewsletterUpdate[];
+  // ID of the first update in this batch
+  firstUpdateId: number;
+  vibe: string[];
+  sectionIndex: number;
+  totalSections: number;
+}
+
+// Who's who among this section's contributors, one line per member with context
+function describeContributors(updates: NewsletterUpdate[]) {
+  const contexts = new Map<string, string>();
+  for (const update of updates) {
+    const context = update.userContext?.trim();
+    if (context && !contexts.has(update.userName)) {
+      contexts.set(update.userName, context);
+    }
+  }
+  return Array.from(contexts, ([userName, context]) => `- ${userName}: ${context}`).join('\n');
+}
+
+// The prompt for one section. Pure, so newsletter-generator.check.ts can
+// check it against fixture input without an LLM or database.
+export function buildSectionPrompt({
+  loopName,
+  loopContext,
+  updates,
+  firstUpdateId,
+  vibe,
+  sectionIndex,
+  totalSections,
+}: SectionPromptInput): string {
+  const vibeDescription = vibe.join(', ');
+  const isFirst = sectionIndex === 0;
+  const isLast = sectionIndex === totalSections - 1;
+  const updateIds = updates.map((_, index) => firstUpdateId + index);
+
+  const updatesList = updates.map((u, index) => {
+    const photos = u.mediaUrls?.length ? ` (${u.mediaUrls.length} photo${u.mediaUrls.length === 1 ? '' : 's'})` : '';
+    return `[${updateIds[index]}] ${u.userName}${photos}:\n${u.content}`;
+  }).join('\n\n');
+
+  const contributors = describeContributors(updates);
+  const background = [
+    loopContext?.trim() ? `About the group:\n${loopContext.trim()}` : '',
+    contributors ? `About the contributors (use this to introduce people correctly):\n${contributors}` : '',
+  ].filter(Boolean).join('\n\n');
+
+  // Shows the expected shape; also a valid answer that puts every update in one section
+  const example: NewsletterPart = {
+    ...(isFirst ? { title: `${loopName} Newsletter`, intro: '' } : {}),
+    sections: [{ heading: 'Updates', body: '', updateIds, quotes: [] }],
+    ...(isLast ? { closingQuestion: '' } : {}),
+  };
+
+  return `Write part ${sectionIndex + 1} of ${totalSections} of the newsletter for the group "${loopName}" with a ${vibeDescription} tone.
+${background ? `\n${background}\n` : ''}
+Here are the updates to cover in this part. Each starts with its ID in brackets:
+
+${updatesList}
+
+Respond with only a JSON object, no other text, in this shape:
+
+\`\`\`json
+${JSON.stringify(example, null, 2)}
+\`\`\`
+
+Requirements:
+${isFirst ? `- title: a catchy overall title for the newsletter
+- intro: an engaging introduction that sets the tone
+` : ''}${isLast ? `- closingQuestion: a fun prompt or question for members to answer next time
+` : ''}${!isFirst && !isLast ? `- Leave out title, intro and closingQuestion; this part sits in the middle of the newsletter
+` : ''}- sections: group the updates into thematic sections. Give each a heading and a body that introduces its updates and makes meaningful connections between them, with creative transitions
+- Every update ID must appear in exactly one section's updateIds
+- The updates themselves, with names and photos, are printed after each section's body, so don't repeat them in full
+- quotes: optional short quotes copied word for word from an update, with that update's ID; we add the attribution
+- Use plain text only, no HTML or Markdown
+- Keep your ${vibeDescription} tone throughout
+- Make it feel like a natural part of a larger story`;
+}
+
+// Pull the JSON object out of the model's answer, even if it's wrapped in a code fence or prose
+export function parseJsonResponse<T>(text: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): T {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    throw new Error('Response did not contain a JSON object');
+  }
+
+  const result = schema.safeParse(JSON.parse(text.slice(start, end + 1)));
+  if (!result.success) {
+    throw new Error(`Response did not match the newsletter format: ${result.error.message}`);
+  }
+  return result.data;
+}
+
+async function completeJson<T>(
+  llm: LLMProvider,
+  prompt: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  maxTokens: number
+): Promise<T> {
+  let lastError: unknown;
+  for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
+    try {
+      const response = await llm.complete({ prompt, maxTokens, json: true });
+      return parseJsonResponse(response, schema);
+    } catch (error) {
+      console.error(`Newsletter generation attempt ${attempt} failed:`, error);
+      lastError = error;
+    }
+  }
+  throw lastError;
+}
+
+// One prompt per batch of updates; each can be generated (and retried) on its own
+export function buildSectionPrompts(
+  loopName: string,
+  updates: NewsletterUpdate[],
+  vibe: string[],
+  options?: NewsletterOptions
+): string[] {
+  const batches = splitUpdatesToBatches(updates);
+  let firstUpdateId = 1;
+  return batches.map((batch, index) => {
+    const prompt = buildSectionPrompt({
+      loopName,
+      loopContext: options?.loopContext,
+      updates: batch,
+      firstUpdateId,
+      vibe,
+      sectionIndex: index,
+      totalSections: batches.length,
+    });
+    firstUpdateId += batch.length;
+    return prompt;
+  });
+}
+
+export async function generateNewsletterSection(prompt: string, provider?: string | null): Promise<NewsletterPart> {
+  return completeJson(getLLMProvider(provider), prompt, partSchema, 4000);
+}
+
+// Put the generated parts together, in prompt order, into the newsletter's HTML
+export function assembleNewsletter(
+  loopName: string,
+  parts: NewsletterPart[],
+  updates: NewsletterUpdate[],
+  options?: NewsletterOptions
+): string {
+  const document: NewsletterDocument = {
+    title: parts[0]?.title || `${loopName} Newsletter`,
+    intro: parts[0]?.intro ?? '',
+    sections: parts.flatMap(part => part.sections),
+    closingQuestion: parts[parts.length - 1]?.closingQuestion ?? '',
+  };
+
+  return renderNewsletter(document, updates, options);
+}
+
+export async function generateNewsletter(
+  loopName: string,
+  updates: NewsletterUpdate[],
+  vibe: string[],
+  options?: NewsletterOptions
+): Promise<string> {
+  try {
+    const prompts = buildSectionPrompts(loopName, updates, vibe, options);
+    const parts = await Promise.all(prompts.map(prompt => generateNewsletterSection(prompt, options?.provider)));
+    return assembleNewsletter(loopName, parts, updates, options);
+  } catch (error) {
+    console.error('Failed to generate newsletter:', error);
+    throw new Error('Failed to generate newsletter. Please try again later.');
+  }
+}
+
+const rewriteSchema = z.object({
+  heading: z.string().default(''),
+  body: z.string(),
+});
+
+export type SectionRewrite = z.infer<typeof rewriteSchema>;
+
+export interface SectionRewriteInput {
+  loopName: string;
+  loopContext?: string | null;
+  vibe: string[];
+  // Empty when rewriting a lone paragraph
+  heading: string;
+  body: string;
+  // The member updates the section introduces, for context
+  updates: NewsletterUpdate[];
+  // What the admin wants changed, e.g. "make this funnier" or "shorter"
+  instruction?: string;
+}
+
+export function buildRewritePrompt({
+  loopName,
+  loopContext,
+  vibe,
+  heading,
+  body,
+  updates,
+  instruction,
+}: SectionRewriteInput): string {
+  const vibeDescription = vibe.join(', ');
+  const isParagraph = !heading.trim();
+  const contributors = describeContributors(updates);
+  const background = [
+    loopContext?.trim() ? `About the group:\n${loopContext.trim()}` : '',
+    contributors ? `About the contributors:\n${contributors}` : '',
+    updates.length ? `The updates this ${isParagraph ? 'paragraph' : 'section'} introduces:\n\n${updates.map(u => `${u.userName}:\n${u.content}`).join('\n\n')}` : '',
+  ].filter(Boolean).join('\n\n');
+
+  // The current text doubles as the example answer
+  const current: SectionRewrite = { heading, body };
+
+  return `Rewrite one ${isParagraph ? 'paragraph' : 'section'} of the newsletter for the group "${loopName}", keeping a ${vibeDescription} tone. The rest of the newsletter stays as it is.
+${background ? `\n${background}\n` : ''}
+Here is the current text, as JSON:
+
+\`\`\`json
+${JSON.stringify(current, null, 2)}
+\`\`\`
+
+${instruction?.trim() ? `The editor's instruction: ${instruction.trim()}` : 'Write a fresh version with the same purpose.'}
+
+Respond with only a JSON object in the same shape, no other text.
+Requirements:
+${isParagraph ? '- Leave heading empty' : '- heading: the section heading'}
+- body: plain text, no HTML or Markdown; separate paragraphs with a blank line
+- Don't repeat the updates in full; they're printed separately
+- Keep names and facts from the updates accurate`;
+}
+
+// A new version of one section of an existing draft
+export async function regenerateSection(input: SectionRewriteInput, provider?: string | null): Promise<SectionRewrite> {
+  try {
+    return await completeJson(getLLMProvider(provider), buildRewritePrompt(input), rewriteSchema, 1500);
+  } catch (error) {
+    console.error('Failed to regenerate section:', error);
+    throw new Error('Failed to regenerate this section. Please try again later.');
+  }
+}
+
+export async function analyzeUpdatesForHighlights(updates: string[], provider?: string | null): Promise<string[]> {
+  try {
+    const prompt = `Given these updates from a group, identify 3-5 key themes or highlights that would be interesting to feature in a newsletter:
+
+${updates.join('\n')}
+
+Please output only the highlights, one per line, focusing on:
+- Common themes across updates
+- Notable achievements or milestones
+- Shared experiences or connections
+- Forward-looking plans or aspirations`;
+
+    const content = await getLLMProvider(provider).complete({ prompt, maxTokens: 1000 });
+    // Models like to number or bullet their lists anyway
+    return content
+      .split('\n')
+      .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim())
+      .filter(Boolean);
+  } catch (error) {
+    console.error('Failed to analyze updates:', error);
+    throw new Error('Failed to analyze updates. Please try again later.');
+  }
+}
+
+const suggestionsSchema = z.object({
+  suggestions: z.array(z.object({
+    summary: z.string(),
+    // Heading of the section it applies to, copied from the draft; null for the whole newsletter
+    sectionHeading: z.string().nullable().default(null),
+    // What to ask for when rewriting that section, e.g. "add a question for readers"
+    instruction: z.string(),
+  })),
+});
+
+export type NewsletterSuggestion = z.infer<typeof suggestionsSchema>['suggestions'][number];
+
+function decodeEntities(text: string) {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// Section headings in a draft, as the editor shows them
+export function findSectionHeadings(newsletterContent: string): string[] {
+  return Array.from(newsletterContent.matchAll(/<h[12][^>]*>([\s\S]*?)<\/h[12]>/g), match =>
+    decodeEntities(match[1].replace(/<[^>]*>/g, '')).trim()
+  ).filter(Boolean);
+}
+
+// Suggestions the editor can apply by rewriting the section each one names
+export async function suggestNewsletterImprovements(
+  newsletterContent: string,
+  vibe: string[],
+  provider?: string | null
+): Promise<NewsletterSuggestion[]> {
+  try {
+    const headings = findSectionHeadings(newsletterContent);
+    const example: z.input<typeof suggestionsSchema> = { suggestions: [] };
+
+    const prompt = `Review this newsletter draft and suggest improvements to make it more engaging and aligned with the ${vibe.join(', ')} vibe:
+
+${newsletterContent}
+
+Focus on:
+1. Tone and voice consistency
+2. Structure and flow
+3. Engagement factors
+4. Personal touches
+5. Call-to-action effectiveness
+
+The draft's section headings are:
+${headings.map(heading => `- ${heading}`).join('\n') || '(none)'}
+
+Respond with only a JSON object, no other text, in this shape:
+
+\`\`\`json
+${JSON.stringify(example, null, 2)}
+\`\`\`
+
+Give 3-5 specific, actionable suggestions. For each:
+- summary: one sentence for the editor explaining the change and why
+- sectionHeading: the heading of the section it applies to, copied exactly from the list above, or null if it's about the whole newsletter
+- instruction: a short instruction for rewriting that section, e.g. "end with a question for readers"`;
+
+    const { suggestions } = await completeJson(getLLMProvider(provider), prompt, suggestionsSchema, 1000);
+    return suggestions.map(suggestion => ({
+      ...suggestion,
+      // Only keep headings that are really in the draft, so the editor can find the section
+      sectionHeading: suggestion.sectionHeading && headings.includes(suggestion.sectionHeading.trim())
+        ? suggestion.sectionHeading.trim()
+        : null,
+    }));
+  } catch (error) {
+    console.error('Failed to suggest improvements:', error);
+    throw new Error('Failed to analyze newsletter. Please try again later.');
+  }
+}
@@ -0,0 +1,252 @@
+import type { NewsletterDocument, NewsletterUpdate } from './newsletter-generator';
+import { sanitizeNewsletterHtml } from './sanitize';
+
+interface RenderOptions {
+  customHeader?: string;
+  customClosing?: string;
+}
+
+export function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Plain text as HTML, one paragraph per blank-line-separated block
+function toParagraphs(text: string, className = '') {
+  const classAttr = className ? ` class="${className}"` : '';
+  return text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .map(paragraph => `<p${classAttr}>${escapeHtml(paragraph).replace(/\n/g, '<br />')}</p>`)
+    .join('\n');
+}
+
+// A member's update exactly as they sent it, with their name and photos
+function renderUpdate(update: NewsletterUpdate) {
+  const userName = escapeHtml(update.userName);
+  const mediaHtml = update.mediaUrls?.map((url, index) => `
+  <figure class="my-4">
+    <img src="${escapeHtml(url)}"
+         alt="Update from ${userName} - Media ${index + 1}"
+         class="rounded-lg shadow-md max-w-[250px] w-full h-auto mx-auto"
+         loading="lazy" />
+  </figure>`).join('\n') || '';
+
+  return `
+<div class="update-details" data-member="${userName}">
+  <p class="font-semibold">${userName}</p>
+  <div class="update-content mb-4">
+    ${toParagraphs(update.content)}
+  </div>
+  ${mediaHtml}
+</div>`;
+}
+
+function renderPhotoGallery(updates: NewsletterUpdate[]) {
+  const images = updates.flatMap(update =>
+    update.mediaUrls?.map(url => ({ url, userName: update.userName, caption: update.content })) || []
+  );
+  if (!images.length) {
+    return '';
+  }
+
+  return `
+<h2 class="text-2xl font-bold mt-12 mb-6">📸 Photo Gallery</h2>
+<div class="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
+  ${images.map(img => `
+  <figure class="relative group">
+    <img src="${escapeHtml(img.url)}"
+         alt="Shared by ${escapeHtml(img.userName)}"
+         class="rounded-lg shadow-md w-full h-48 object-cover"
+         loading="lazy" />
+    <div class="absolute bottom-0 left-0 right-0 bg-black bg-opacity-50 text-white p-2 rounded-b-lg">
+      <p class="text-sm font-semibold">Shared by ${escapeHtml(img.userName)}</p>
+      ${img.caption ? `<p class="text-xs mt-1 line-clamp-2">${escapeHtml(img.caption)}</p>` : ''}
+    </div>
+  </figure>
+  `).join('\n')}
+</div>`;
+}
+
+// Turn a generated document into the newsletter's HTML. Section text comes
+// from the model, but every update is rendered from the member's own words,
+// name and photos, and any update the model didn't place still gets printed.
+export function renderNewsletter(
+  document: NewsletterDocument,
+  updates: NewsletterUpdate[],
+  options?: RenderOptions
+): string {
+  // Update IDs in the document are 1-based positions in `updates`
+  const getUpdate = (updateId: number) => updates[updateId - 1];
+  const shown = new Set<number>();
+
+  const sectionsHtml = document.sections.map(section => {
+    const quotes = section.quotes
+      .filter(quote => getUpdate(quote.updateId) && quote.text.trim())
+      .map(quote => `
+<blockquote class="border-l-4 border-primary pl-4 my-4 italic">
+  ${escapeHtml(quote.text.trim())}
+  <footer class="not-italic text-sm text-gray-500 mt-1">— ${escapeHtml(getUpdate(quote.updateId).userName)}</footer>
+</blockquote>`)
+      .join('\n');
+
+    const sectionUpdates = section.updateIds
+      .filter(updateId => getUpdate(updateId) && !shown.has(updateId))
+      .map(updateId => {
+        shown.add(updateId);
+        return renderUpdate(getUpdate(updateId));
+      })
+      .join('\n');
+
+    return `
+<section>
+  <h2 class="text-2xl font-bold mt-8 mb-4">${escapeHtml(section.heading)}</h2>
+  ${toParagraphs(section.body)}
+  ${quotes}
+  ${sectionUpdates}
+</section>`;
+  }).join('\n');
+
+  const leftovers = updates.filter((_, index) => !shown.has(index + 1));
+  const leftoversHtml = leftovers.length ? `
+<section>
+  <h2 class="text-2xl font-bold mt-8 mb-4">More from the group</h2>
+  ${leftovers.map(renderUpdate).join('\n')}
+</section>` : '';
+
+  const closingHtml = document.closingQuestion.trim() ? `
+<section>
+  <h2 class="text-2xl font-bold mt-12 mb-4">Until next time</h2>
+  ${toParagraphs(document.closingQuestion)}
+</section>` : '';
+
+  const editorsNote = options?.customHeader?.trim() ? `
+  <section class="editors-note bg-muted/50 rounded-lg p-6 mb-8">
+    <h2 class="text-lg font-semibold mb-2">From the editor</h2>
+    ${toParagraphs(options.customHeader)}
+  </section>` : '';
+
+  const signOff = options?.customClosing?.trim() ? `
+    <section class="sign-off mt-12 italic">
+      ${toParagraphs(options.customClosing)}
+    </section>` : '';
+
+  return `
+<div class="newsletter-content max-w-4xl mx-auto">
+  <header class="text-center mb-8">
+    <div class="text-sm text-gray-500">
+      Generated on ${new Date().toLocaleDateString()}
+    </div>
+  </header>
+${editorsNote}
+  <article class="prose prose-lg mx-auto">
+    <h1 class="text-4xl font-bold text-center mb-8">${escapeHtml(document.title)}</h1>
+    ${toParagraphs(document.intro, 'text-lg')}
+    ${sectionsHtml}
+    ${leftoversHtml}
+    ${closingHtml}
+    ${renderPhotoGallery(updates)}
+    ${signOff}
+  </article>
+
+  <footer class="mt-8 pt-4 border-t border-gray-200 text-center text-sm text-gray-500">
+    <p>This newsletter was generated with ❤️ by LoopedIn</p>
+    <p class="mt-1">Want to contribute to the next update? Just send us a text message!</p>
+  </footer>
+</div>`;
+}
+
+// The public newsletter page around stored content. Content is sanitized when
+// it's saved too; this also covers newsletters stored before that.
+export function renderNewsletterPage(content: string): string {
+  return `
+  <!DOCTYPE html>
+  <html>
+  <head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <link href="https://cdn.jsdelivr.net/npm/tailwindcss@2.2.19/dist/tailwind.min.css" rel="stylesheet">
+    <style>
+      .newsletter-content {
+        max-width: 800px;
+        margin: 0 auto;
+        padding: 2rem;
+      }
+      .newsletter-content img {
+        max-width: 250px;
+        width: 100%;
+        height: auto;
+        margin: 1rem auto;
+        border-radius: 0.5rem;
+        box-shadow: 0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 2px 4px -1px rgba(0, 0, 0, 0.06);
+        display: block;
+      }
+      .newsletter-content figure {
+        margin: 1rem 0;
+        text-align: center;
+      }
+      .newsletter-content h1 {
+        font-size: 2.25rem;
+        font-weight: bold;
+        margin-bottom: 1.5rem;
+        color: #1a1a1a;
+        text-align: center;
+      }
+      .newsletter-content h2 {
+        font-size: 1.5rem;
+        font-weight: bold;
+        margin-top: 2rem;
+        margin-bottom: 1rem;
+        color: #2d3748;
+      }
+      .newsletter-content h3 {
+        font-size: 1.25rem;
+        font-weight: bold;
+        margin-top: 1.5rem;
+        margin-bottom: 0.75rem;
+        color: #4a5568;
+      }
+      .newsletter-content p {
+        margin-bottom: 1rem;
+        line-height: 1.6;
+      }
+      .newsletter-content hr {
+        margin: 2rem 0;
+        border: 0;
+        height: 1px;
+        background-color: #e2e8f0;
+      }
+      .newsletter-content ul {
+        list-style-type: disc;
+        margin-left: 1.5rem;
+        margin-bottom: 1rem;
+      }
+      .newsletter-content li {
+        margin-bottom: 0.5rem;
+      }
+      .update-block {
+        border: 1px solid #e2e8f0;
+        border-radius: 0.5rem;
+        padding: 1.5rem;
+        margin-bottom: 2rem;
+        background-color: #f8fafc;
+      }
+      .update-content {
+        margin: 1rem 0;
+      }
+    </style>
+  </head>
+  <body class="bg-gray-50 min-h-screen py-8">
+    <div class="max-w-4xl mx-auto px-4">
+      <article class="bg-white rounded-xl shadow-lg overflow-hidden">
+        ${sanitizeNewsletterHtml(content)}
+      </article>
+    </div>
+  </body>
+  </html>
+`;
+}
@@ -0,0 +1,352 @@
+import { db } from "@db";
+import { nanoid } from "nanoid";
+import {
+  loops,
+  loopMembers,
+  deliveries,
+  newsletters,
+  updates,
+  type Loop,
+  type InsertNewsletter,
+  type Newsletter,
+  type Update,
+  type User,
+} from "@db/schema";
+import { and, desc, eq, inArray, isNotNull, isNull, lt, notInArray, or } from "drizzle-orm";
+import { addMonths, addWeeks, subMinutes } from "date-fns";
+import { createSMSJob } from "./queue";
+import { generateNewsletter, type NewsletterOptions, type NewsletterUpdate } from "./newsletter-generator";
+import { appUrl } from "./urls";
+import { getLoopTemplate, renderTemplate } from "./templates";
+import { sanitizeNewsletterHtml } from "./sanitize";
+import { recordRevision } from "./revisions";
+
+export type UpdateWithUser = Update & { user: User | null };
+
+export interface IssuePeriod {
+  // When the last newsletter went out, or null if the loop has never sent one
+  start: Date | null;
+  // Unpublished updates posted since then, oldest first
+  updates: UpdateWithUser[];
+}
+
+// An update is published once the newsletter it was included in has been sent.
+// Updates that only made it into drafts are still up for grabs.
+async function findUnpublishedUpdates(loopId: number): Promise<UpdateWithUser[]> {
+  const loopUpdates = await db.query.updates.findMany({
+    where: eq(updates.loopId, loopId),
+    with: {
+      user: true,
+      newsletter: true,
+    },
+    orderBy: updates.createdAt,
+  });
+
+  return loopUpdates
+    .filter(update => update.newsletter?.status !== 'sent')
+    .map(({ newsletter, ...update }) => update);
+}
+
+async function findLastSentAt(loopId: number): Promise<Date | null> {
+  const [lastSent] = await db
+    .select({ sentAt: newsletters.sentAt })
+    .from(newsletters)
+    .where(
+      and(
+        eq(newsletters.loopId, loopId),
+        eq(newsletters.status, 'sent'),
+        isNotNull(newsletters.sentAt)
+      )
+    )
+    .orderBy(desc(newsletters.sentAt))
+    .limit(1);
+
+  return lastSent?.sentAt ?? null;
+}
+
+// Next issue date: one frequency interval after the last newsletter went out,
+// or after the loop was created if it hasn't sent one yet
+export async function getNextIssueDate(loop: Loop): Promise<Date> {
+  const base = (await findLastSentAt(loop.id)) ?? loop.createdAt ?? new Date();
+  return loop.frequency === 'monthly' ? addMonths(base, 1) : addWeeks(base, 2);
+}
+
+export async function getCurrentPeriod(loopId: number): Promise<IssuePeriod> {
+  const start = await findLastSentAt(loopId);
+  const unpublished = await findUnpublishedUpdates(loopId);
+
+  return {
+    start,
+    updates: start
+      ? unpublished.filter(update => update.createdAt && update.createdAt > start)
+      : unpublished,
+  };
+}
+
+// Updates to include in the next issue: the explicit selection if the admin
+// made one (limited to this loop's unpublished updates), else the current period
+export async function selectUpdatesForIssue(loopId: number, updateIds?: number[]): Promise<UpdateWithUser[]> {
+  if (!updateIds) {
+    return (await getCurrentPeriod(loopId)).updates;
+  }
+
+  const selected = new Set(updateIds);
+  const unpublished = await findUnpublishedUpdates(loopId);
+  return unpublished.filter(update => selected.has(update.id));
+}
+
+// memberContexts maps user IDs to what the loop creator noted about each member
+export function toNewsletterUpdates(
+  loopUpdates: UpdateWithUser[],
+  memberContexts: Map<number, string | null> = new Map()
+): NewsletterUpdate[] {
+  return loopUpdates.map(update => {
+    const user = update.user;
+    if (!user) {
+      throw new Error("Update missing user information");
+    }
+    return {
+      content: update.content,
+      userName: `${user.firstName} ${user.lastName}`,
+      mediaUrls: update.mediaUrls || [],
+      userContext: memberContexts.get(user.id) ?? null,
+    };
+  });
+}
+
+export interface DraftOptions {
+  customHeader?: string;
+  customClosing?: string;
+  // Who asked for the draft; left out for drafts the scheduler creates
+  authorId?: number;
+}
+
+// What the generator needs for a draft of these updates: the updates with
+// member context, and the loop's settings
+export async function prepareDraft(loop: Loop, issueUpdates: UpdateWithUser[], options?: DraftOptions) {
+  const members = await db.query.loopMembers.findMany({
+    where: eq(loopMembers.loopId, loop.id),
+  });
+  const memberContexts = new Map<number, string | null>();
+  for (const member of members) {
+    if (member.userId !== null) {
+      memberContexts.set(member.userId, member.context);
+    }
+  }
+
+  const generatorOptions: NewsletterOptions = {
+    loopContext: loop.context,
+    // Fall back to the loop's saved wording; an empty string leaves it out of this issue
+    customHeader: options?.customHeader ?? loop.newsletterHeader ?? undefined,
+    customClosing: options?.customClosing ?? loop.newsletterClosing ?? undefined,
+    provider: loop.llmProvider,
+  };
+
+  return {
+    newsletterUpdates: toNewsletterUpdates(issueUpdates, memberContexts),
+    generatorOptions,
+  };
+}
+
+// Store generated content as a new draft and tie the updates to it
+export async function saveNewsletterDraft(
+  loop: Loop,
+  issueUpdates: UpdateWithUser[],
+  content: string,
+  authorId: number | null,
+  fields: Pick<InsertNewsletter, 'scheduledFor' | 'autoGenerated'> = {}
+): Promise<Newsletter> {
+  const [newsletter] = await db
+    .insert(newsletters)
+    .values({
+      loopId: loop.id,
+      content: sanitizeNewsletterHtml(content),
+      status: 'draft',
+      urlId: nanoid(10),
+      ...fields,
+    })
+    .returning();
+
+  if (!newsletter) {
+    throw new Error("Failed to create newsletter");
+  }
+
+  return finishDraft(newsletter, issueUpdates, authorId);
+}
+
+// Record the draft's first revision and tie the updates to it
+async function finishDraft(newsletter: Newsletter, issueUpdates: UpdateWithUser[], authorId: number | null) {
+  await recordRevision(newsletter.id, newsletter.content, 'generated', authorId);
+
+  await db
+    .update(updates)
+    .set({ newsletterId: newsletter.id })
+    .where(and(
+      inArray(updates.id, issueUpdates.map(update => update.id)),
+      // An update that went out in the meantime stays with the issue that sent it
+      or(
+        isNull(updates.newsletterId),
+        notInArray(
+          updates.newsletterId,
+          db.select({ id: newsletters.id }).from(newsletters).where(eq(newsletters.status, 'sent'))
+        )
+      )
+    ));
+
+  return newsletter;
+}
+
+// Claim an issue date for the scheduler's draft by inserting an empty
+// placeholder. The unique (loop, issue date) index makes the insert a no-op
+// for every instance but the first one to get there.
+export async function claimScheduledIssue(loopId: number, scheduledFor: Date): Promise<Newsletter | null> {
+  const [placeholder] = await db
+    .insert(newsletters)
+    .values({
+      loopId,
+      content: '',
+      status: 'generating',
+      urlId: nanoid(10),
+      scheduledFor,
+      autoGenerated: true,
+    })
+    .onConflictDoNothing()
+    .returning();
+
+  return placeholder ?? null;
+}
+
+// Fill a claimed placeholder with its generated content, making it a draft
+export async function completeScheduledIssue(
+  placeholder: Newsletter,
+  issueUpdates: UpdateWithUser[],
+  content: string
+): Promise<Newsletter> {
+  // Same created and updated time, so the draft counts as untouched for auto-send
+  const now = new Date();
+  const [newsletter] = await db
+    .update(newsletters)
+    .set({
+      content: sanitizeNewsletterHtml(content),
+      status: 'draft',
+      createdAt: now,
+      updatedAt: now,
+    })
+    .where(eq(newsletters.id, placeholder.id))
+    .returning();
+
+  return finishDraft(newsletter, issueUpdates, null);
+}
+
+// Give up a claimed issue date so a later run can draft it
+export async function releaseScheduledIssue(placeholder: Newsletter) {
+  await db
+    .delete(newsletters)
+    .where(and(eq(newsletters.id, placeholder.id), eq(newsletters.status, 'generating')));
+}
+
+// Generate a draft from the given updates in one go
+export async function createNewsletterDraft(
+  loop: Loop,
+  issueUpdates: UpdateWithUser[],
+  options?: DraftOptions,
+  fields: Pick<InsertNewsletter, 'scheduledFor' | 'autoGenerated'> = {}
+): Promise<Newsletter> {
+  const { newsletterUpdates, generatorOptions } = await prepareDraft(loop, issueUpdates, options);
+  const content = await generateNewsletter(loop.name, newsletterUpdates, loop.vibe, generatorOptions);
+  return saveNewsletterDraft(loop, issueUpdates, content, options?.authorId ?? null, fields);
+}
+
+// Queue a text with the public newsletter link for every member who doesn't
+// have one yet. Members whose copy is queued, being sent, sent or delivered
+// are skipped, so a partially failed send can simply be run again. The queue
+// marks the newsletter sent once the first member has it.
+export async function deliverNewsletter(newsletter: Newsletter) {
+  const loop = await db.query.loops.findFirst({
+    where: eq(loops.id, newsletter.loopId),
+    with: {
+      members: {
+        with: {
+          user: true,
+        },
+      },
+    },
+  });
+
+  if (!loop) {
+    throw new Error("Loop not found");
+  }
+
+  const previousDeliveries = await db
+    .select({ userId: deliveries.userId })
+    .from(deliveries)
+    .where(
+      and(
+        eq(deliveries.newsletterId, newsletter.id),
+        inArray(deliveries.status, ['queued', 'sending', 'pending', 'sent', 'delivered'])
+      )
+    );
+  const alreadyDelivered = new Set(previousDeliveries.map(d => d.userId));
+
+  const members = loop.members.flatMap(member =>
+    member.user?.phoneNumber?.trim() ? [member.user] : []
+  );
+  const recipients = members
+    .filter(user => !alreadyDelivered.has(user.id))
+    .map(user => ({ phoneNumber: user.phoneNumber, userId: user.id, firstName: user.firstName }));
+
+  const url = appUrl(`/newsletters/${newsletter.urlId}`);
+  const template = await getLoopTemplate(loop.id, 'newsletter');
+  const job = await createSMSJob(
+    recipients,
+    recipient => renderTemplate(template, { firstName: recipient.firstName, loopName: loop.name, newsletterUrl: url }),
+    { kind: 'newsletter', loopId: loop.id, newsletterId: newsletter.id }
+  );
+
+  console.log(`Queued newsletter ${newsletter.id} for loop ${loop.name} to ${recipients.length} members (job ${job.id})`);
+  return { job, skipped: members.length - recipients.length };
+}
+
+// Newsletters that can go out: drafts, and sent ones (to reach members a
+// partial send missed). Not the scheduler's placeholders, which have no content yet.
+export const SENDABLE_STATUSES = ['draft', 'sent'];
+
+// A claim older than this belongs to a send that never finished
+const DELIVERY_CLAIM_MINUTES = 30;
+
+// Take the newsletter for this send. The condition makes the update a no-op
+// while another send (a double click, a retried request, auto-send) holds it.
+async function claimNewsletterSend(newsletter: Newsletter) {
+  const [claimed] = await db
+    .update(newsletters)
+    .set({ deliveryClaimedAt: new Date() })
+    .where(and(
+      eq(newsletters.id, newsletter.id),
+      inArray(newsletters.status, SENDABLE_STATUSES),
+      or(
+        isNull(newsletters.deliveryClaimedAt),
+        lt(newsletters.deliveryClaimedAt, subMinutes(new Date(), DELIVERY_CLAIM_MINUTES))
+      )
+    ))
+    .returning();
+
+  return claimed ?? null;
+}
+
+// Queue a newsletter's delivery. Returns null if another send of the same
+// newsletter is already under way.
+export async function sendNewsletter(newsletter: Newsletter) {
+  const claimed = await claimNewsletterSend(newsletter);
+  if (!claimed) {
+    return null;
+  }
+
+  try {
+    return await deliverNewsletter(claimed);
+  } finally {
+    await db
+      .update(newsletters)
+      .set({ deliveryClaimedAt: null })
+      .where(eq(newsletters.id, newsletter.id));
+  }
+}
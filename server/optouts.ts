@@ -0,0 +1,120 @@
+import { db } from "@db";
+import { loops, smsOptOuts, type Loop } from "@db/schema";
+import { and, eq, inArray, isNull, or } from "drizzle-orm";
+
+export type OptOutKeyword = { optOut: boolean; loop?: Loop };
+
+const STOP_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT'];
+const START_KEYWORDS = ['START', 'UNSTOP', 'SUBSCRIBE'];
+
+export function normalizePhoneNumber(phoneNumber: string) {
+  return phoneNumber.replace(/\D/g, '');
+}
+
+// STOP/START, optionally followed by a loop code to opt out of just that loop.
+// A second word that isn't a loop code ("Quit smoking", "End game") means the
+// text is an ordinary message, not a keyword.
+export async function parseOptOutKeyword(body: string): Promise<OptOutKeyword | null> {
+  const [keyword, loopCode, ...rest] = body.trim().replace(/[.!]+$/, '').toUpperCase().split(/\s+/);
+  if (rest.length) {
+    return null;
+  }
+
+  const optOut = STOP_KEYWORDS.includes(keyword) ? true : START_KEYWORDS.includes(keyword) ? false : null;
+  if (optOut === null) {
+    return null;
+  }
+  if (!loopCode) {
+    return { optOut };
+  }
+
+  const [loop] = await db
+    .select()
+    .from(loops)
+    .where(eq(loops.shortCode, loopCode))
+    .limit(1);
+
+  return loop ? { optOut, loop } : null;
+}
+
+// Whether a number has opted out of everything, or of the given loop
+export async function isOptedOut(phoneNumber: string, loopId?: number | null) {
+  const [optOut] = await db
+    .select({ id: smsOptOuts.id })
+    .from(smsOptOuts)
+    .where(
+      and(
+        eq(smsOptOuts.phoneNumber, normalizePhoneNumber(phoneNumber)),
+        loopId ? or(isNull(smsOptOuts.loopId), eq(smsOptOuts.loopId, loopId)) : isNull(smsOptOuts.loopId)
+      )
+    )
+    .limit(1);
+
+  return !!optOut;
+}
+
+// Opt-out state for a loop's members: 'all' if they stopped everything,
+// 'loop' if they only stopped this loop
+export async function getOptOutStatuses(phoneNumbers: string[], loopId: number) {
+  const statuses = new Map<string, 'all' | 'loop'>();
+  const normalized = phoneNumbers.map(normalizePhoneNumber);
+  if (!normalized.length) {
+    return statuses;
+  }
+
+  const rows = await db
+    .select()
+    .from(smsOptOuts)
+    .where(
+      and(
+        inArray(smsOptOuts.phoneNumber, normalized),
+        or(isNull(smsOptOuts.loopId), eq(smsOptOuts.loopId, loopId))
+      )
+    );
+
+  for (const row of rows) {
+    if (row.loopId === null || !statuses.has(row.phoneNumber)) {
+      statuses.set(row.phoneNumber, row.loopId === null ? 'all' : 'loop');
+    }
+  }
+  return statuses;
+}
+
+// Record a STOP or START and return the reply to send
+export async function applyOptOutKeyword(phoneNumber: string, keyword: OptOutKeyword): Promise<string> {
+  const number = normalizePhoneNumber(phoneNumber);
+
+  const { loop } = keyword;
+  const scope = loop ? eq(smsOptOuts.loopId, loop.id) : isNull(smsOptOuts.loopId);
+
+  if (keyword.optOut) {
+    const [existing] = await db
+      .select({ id: smsOptOuts.id })
+      .from(smsOptOuts)
+      .where(and(eq(smsOptOuts.phoneNumber, number), scope))
+      .limit(1);
+
+    if (!existing) {
+      await db.insert(smsOptOuts).values({ phoneNumber: number, loopId: loop?.id ?? null });
+    }
+
+    console.log(`Opted out ${number}${loop ? ` of loop ${loop.id}` : ''}`);
+    return loop
+      ? `You won't get any more messages from ${loop.name}. Reply START ${loop.shortCode} to resubscribe.`
+      : "You've been unsubscribed from all LoopedIn messages. Reply START to resubscribe.";
+  }
+
+  // START on its own clears every opt-out for the number; START CODE only that loop's
+  await db
+    .delete(smsOptOuts)
+    .where(loop ? and(eq(smsOptOuts.phoneNumber, number), scope) : eq(smsOptOuts.phoneNumber, number));
+
+  console.log(`Opted in ${number}${loop ? ` to loop ${loop.id}` : ''}`);
+
+  if (loop && await isOptedOut(number)) {
+    return `You're resubscribed to ${loop.name}, but still opted out of all LoopedIn messages. Reply START to resubscribe to everything.`;
+  }
+  return loop
+    ? `You're resubscribed to ${loop.name}. Welcome back!`
+    : "You're resubscribed to LoopedIn messages. Welcome back!";
+}
@@ -0,0 +1,237 @@
+import { db } from "@db";
+import { deliveries, newsletters, smsJobs, type Delivery } from "@db/schema";
+import { and, asc, count, eq, isNull, lt, lte, ne, or } from "drizzle-orm";
+import { addSeconds, subMinutes } from 'date-fns';
+import { isOptedOut } from "./optouts";
+import { getDeferralTime } from "./quiet-hours";
+import { sendThroughTransport, type DeliveryContext } from "./twilio";
+
+const MAX_ATTEMPTS = parseInt(process.env.SMS_MAX_ATTEMPTS || '5');
+// First retry waits this long, doubling with each attempt after that
+const RETRY_BASE_SECONDS = parseInt(process.env.SMS_RETRY_BASE_SECONDS || '30');
+// Messages picked up per tick; the transport's rate limit does the pacing
+const BATCH_SIZE = 20;
+// A message still 'sending' after this long was interrupted by a restart
+const STUCK_MINUTES = 10;
+
+// Add a message to the outbound queue. Opted-out numbers are recorded as
+// suppressed straight away rather than queued.
+export async function enqueueSMS(phoneNumber: string, message: string, context: DeliveryContext = {}) {
+  const optedOut = await isOptedOut(phoneNumber, context.loopId);
+
+  const [delivery] = await db
+    .insert(deliveries)
+    .values({
+      kind: context.kind ?? 'message',
+      userId: context.userId,
+      loopId: context.loopId,
+      newsletterId: context.newsletterId,
+      jobId: context.jobId,
+      channel: 'sms',
+      toNumber: phoneNumber,
+      body: message,
+      status: optedOut ? 'suppressed' : 'queued',
+      error: optedOut ? 'Recipient opted out' : null,
+      nextAttemptAt: optedOut ? null : new Date(),
+    })
+    .returning();
+
+  return delivery;
+}
+
+export interface SMSRecipient {
+  phoneNumber: string;
+  userId?: number;
+}
+
+// Queue a message to a group of recipients as one job. The message can be
+// worded per recipient (a newsletter link addressed by first name).
+export async function createSMSJob<R extends SMSRecipient>(
+  recipients: R[],
+  message: string | ((recipient: R) => string),
+  context: { loopId?: number; createdById?: number; kind?: 'bulk' | 'newsletter'; newsletterId?: number } = {}
+) {
+  const [job] = await db
+    .insert(smsJobs)
+    .values({
+      loopId: context.loopId,
+      createdById: context.createdById,
+      kind: context.kind ?? 'bulk',
+      total: recipients.length,
+    })
+    .returning();
+
+  for (const recipient of recipients) {
+    await enqueueSMS(recipient.phoneNumber, typeof message === 'string' ? message : message(recipient), {
+      kind: context.kind ?? 'bulk',
+      userId: recipient.userId,
+      loopId: context.loopId,
+      newsletterId: context.newsletterId,
+      jobId: job.id,
+    });
+  }
+
+  return job;
+}
+
+export async function getSMSJobProgress(jobId: number) {
+  const job = await db.query.smsJobs.findFirst({
+    where: eq(smsJobs.id, jobId),
+  });
+
+  if (!job) {
+    return null;
+  }
+
+  const rows = await db
+    .select({ status: deliveries.status, total: count() })
+    .from(deliveries)
+    .where(eq(deliveries.jobId, jobId))
+    .groupBy(deliveries.status);
+
+  const byStatus = Object.fromEntries(rows.map(row => [row.status, row.total]));
+  const sent = (byStatus.sent ?? 0) + (byStatus.delivered ?? 0);
+  const failed = (byStatus.failed ?? 0) + (byStatus.undelivered ?? 0);
+  const suppressed = byStatus.suppressed ?? 0;
+  const pending = (byStatus.queued ?? 0) + (byStatus.sending ?? 0);
+
+  return {
+    id: job.id,
+    loopId: job.loopId,
+    total: job.total,
+    sent,
+    failed,
+    suppressed,
+    pending,
+    done: pending === 0,
+    createdAt: job.createdAt,
+  };
+}
+
+// Take a queued message for this instance. The status condition makes the
+// update a no-op if another instance claimed it first.
+async function claimDelivery(id: number) {
+  const [claimed] = await db
+    .update(deliveries)
+    .set({ status: 'sending', updatedAt: new Date() })
+    .where(and(eq(deliveries.id, id), eq(deliveries.status, 'queued')))
+    .returning();
+
+  return claimed ?? null;
+}
+
+async function sendQueuedDelivery(delivery: Delivery) {
+  const attempts = delivery.attempts + 1;
+
+  // They may have replied STOP while the message was waiting
+  if (await isOptedOut(delivery.toNumber!, delivery.loopId ?? undefined)) {
+    await db
+      .update(deliveries)
+      .set({ status: 'suppressed', error: 'Recipient opted out', updatedAt: new Date() })
+      .where(eq(deliveries.id, delivery.id));
+    return;
+  }
+
+  // Hold it until the recipient's quiet hours are over; waiting isn't an attempt
+  const deferredUntil = await getDeferralTime({
+    kind: delivery.kind as DeliveryContext['kind'],
+    userId: delivery.userId ?? undefined,
+    loopId: delivery.loopId ?? undefined,
+  });
+  if (deferredUntil) {
+    await db
+      .update(deliveries)
+      .set({ status: 'queued', nextAttemptAt: deferredUntil, updatedAt: new Date() })
+      .where(eq(deliveries.id, delivery.id));
+    return;
+  }
+
+  const result = await sendThroughTransport(delivery.toNumber!, delivery.body!);
+
+  if (result.success) {
+    await db
+      .update(deliveries)
+      .set({
+        status: 'sent',
+        providerMessageSid: result.sid,
+        attempts,
+        sentAt: new Date(),
+        nextAttemptAt: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(deliveries.id, delivery.id));
+
+    // A newsletter counts as sent once the first member has it
+    if (delivery.kind === 'newsletter' && delivery.newsletterId) {
+      await db
+        .update(newsletters)
+        .set({ status: 'sent', sentAt: new Date() })
+        .where(and(eq(newsletters.id, delivery.newsletterId), ne(newsletters.status, 'sent')));
+    }
+    return;
+  }
+
+  const retry = result.retryable && attempts < MAX_ATTEMPTS;
+  if (retry) {
+    console.warn(`Message ${delivery.id} failed (attempt ${attempts}), retrying: ${result.error}`);
+  } else {
+    console.error(`Message ${delivery.id} failed permanently after ${attempts} attempts: ${result.error}`);
+  }
+
+  await db
+    .update(deliveries)
+    .set({
+      status: retry ? 'queued' : 'failed',
+      error: result.error,
+      attempts,
+      nextAttemptAt: retry ? addSeconds(new Date(), RETRY_BASE_SECONDS * 2 ** (attempts - 1)) : null,
+      updatedAt: new Date(),
+    })
+    .where(eq(deliveries.id, delivery.id));
+}
+
+let processing = false;
+
+// Send whatever is due. Ticks overlap when a batch takes longer than the
+// interval, so a tick that finds the previous one still running does nothing.
+export async function processOutboundQueue() {
+  if (processing) {
+    return;
+  }
+  processing = true;
+
+  try {
+    // We don't know whether an interrupted send reached the provider; fail it
+    // rather than risk texting someone twice
+    await db
+      .update(deliveries)
+      .set({ status: 'failed', error: 'Interrupted while sending', updatedAt: new Date() })
+      .where(and(
+        eq(deliveries.status, 'sending'),
+        lt(deliveries.updatedAt, subMinutes(new Date(), STUCK_MINUTES))
+      ));
+
+    const due = await db
+      .select({ id: deliveries.id })
+      .from(deliveries)
+      .where(and(
+        eq(deliveries.status, 'queued'),
+        or(isNull(deliveries.nextAttemptAt), lte(deliveries.nextAttemptAt, new Date()))
+      ))
+      .orderBy(asc(deliveries.id))
+      .limit(BATCH_SIZE);
+
+    for (const { id } of due) {
+      const delivery = await claimDelivery(id);
+      if (delivery) {
+        await sendQueuedDelivery(delivery);
+      }
+    }
+  } catch (error) {
+    console.error('Error processing outbound SMS queue:', error);
+  } finally {
+    processing = false;
+  }
+}
+
+setInterval(processOutboundQueue, 1000 * 5);
@@ -0,0 +1,76 @@
+import { db } from "@db";
+import { loopMembers, loops } from "@db/schema";
+import { and, eq } from "drizzle-orm";
+import { addDays } from 'date-fns';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import type { DeliveryContext } from "./twilio";
+
+// Texts that can wait until morning. Welcomes, replies and one-off messages
+// to the loop creator go out straight away.
+const DEFERRABLE_KINDS: DeliveryContext['kind'][] = ['reminder', 'thanks', 'bulk', 'newsletter'];
+
+export interface QuietHours {
+  timeZone: string;
+  start: string; // 'HH:mm' in timeZone
+  end: string;
+}
+
+export function isValidTimeOfDay(value: unknown): value is string {
+  return typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+}
+
+// When the quiet window `now` falls in ends, or null if it isn't in one.
+// A window whose start is after its end runs overnight.
+export function getQuietHoursEnd(quietHours: QuietHours, now: Date = new Date()): Date | null {
+  const { timeZone, start, end } = quietHours;
+  if (start === end) {
+    return null;
+  }
+
+  const time = formatInTimeZone(now, timeZone, 'HH:mm');
+  const overnight = start > end;
+  const isQuiet = overnight ? time >= start || time < end : time >= start && time < end;
+  if (!isQuiet) {
+    return null;
+  }
+
+  // The window ends today if we're before the end time, otherwise tomorrow
+  const day = time < end ? now : addDays(now, 1);
+  return fromZonedTime(`${formatInTimeZone(day, timeZone, 'yyyy-MM-dd')}T${end}:00`, timeZone);
+}
+
+// The recipient's quiet hours: their own timezone and window if they've set
+// them, otherwise the loop's
+async function getRecipientQuietHours(loopId: number, userId?: number): Promise<QuietHours | null> {
+  const loop = await db.query.loops.findFirst({
+    where: eq(loops.id, loopId),
+  });
+  if (!loop) {
+    return null;
+  }
+
+  const member = userId
+    ? await db.query.loopMembers.findFirst({
+        where: and(eq(loopMembers.loopId, loopId), eq(loopMembers.userId, userId)),
+      })
+    : undefined;
+
+  const hasOwnWindow = member?.quietHoursStart && member.quietHoursEnd;
+  const start = hasOwnWindow ? member.quietHoursStart : loop.quietHoursStart;
+  const end = hasOwnWindow ? member.quietHoursEnd : loop.quietHoursEnd;
+  if (!start || !end) {
+    return null;
+  }
+
+  return { timeZone: member?.timezone || loop.timezone, start, end };
+}
+
+// When a message should be held until, or null to send it now
+export async function getDeferralTime(context: DeliveryContext, now: Date = new Date()): Promise<Date | null> {
+  if (!context.loopId || !DEFERRABLE_KINDS.includes(context.kind)) {
+    return null;
+  }
+
+  const quietHours = await getRecipientQuietHours(context.loopId, context.userId);
+  return quietHours ? getQuietHoursEnd(quietHours, now) : null;
+}
@@ -0,0 +1,217 @@
+import { db } from "@db";
+import {
+  deliveries,
+  reminderRuns,
+  type Loop,
+  type LoopMember,
+  type ReminderSchedule,
+  type User,
+} from "@db/schema";
+import { and, count, eq, gt, inArray } from "drizzle-orm";
+import { addDays, subDays, subHours, subMinutes } from 'date-fns';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import { isSMSConfigured } from "./twilio";
+import { enqueueSMS } from "./queue";
+import { getCurrentPeriod, getNextIssueDate } from "./newsletters";
+import { getLoopTemplates, renderTemplate } from "./templates";
+
+// How far back a tick looks for slots that were missed (restart, deploy, slow tick)
+const GRACE_MINUTES = parseInt(process.env.REMINDER_GRACE_MINUTES || '120');
+
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== 'string' || !timeZone) {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Every reminder instant in (from, to], resolved in the loop's timezone
+export function getReminderSlots(schedule: ReminderSchedule, timeZone: string, from: Date, to: Date): Date[] {
+  const slots: Date[] = [];
+
+  // Walk calendar days in the loop's zone, starting a day early so a slot
+  // late on the zone's previous day isn't missed
+  for (let day = subDays(from, 1); day <= addDays(to, 1); day = addDays(day, 1)) {
+    const weekday = formatInTimeZone(day, timeZone, 'EEEE');
+    const date = formatInTimeZone(day, timeZone, 'yyyy-MM-dd');
+
+    for (const entry of schedule) {
+      if (entry.day !== weekday) continue;
+      const slot = fromZonedTime(`${date}T${entry.time}:00`, timeZone);
+      if (slot > from && slot <= to && !slots.some(s => s.getTime() === slot.getTime())) {
+        slots.push(slot);
+      }
+    }
+  }
+
+  return slots.sort((a, b) => a.getTime() - b.getTime());
+}
+
+// Next time one of the schedule entries comes around in the loop's timezone
+export function getNextReminderAt(schedule: ReminderSchedule, timeZone: string, from: Date = new Date()): Date | null {
+  return getReminderSlots(schedule, timeZone, from, addDays(from, 7))[0] ?? null;
+}
+
+// Reminders sent to each member since the issue period started, counting
+// ones still waiting (quiet hours) or in flight so they aren't sent again
+async function countPeriodMessages(loopId: number, kind: 'reminder' | 'thanks', since: Date | null) {
+  const rows = await db
+    .select({ userId: deliveries.userId, sent: count() })
+    .from(deliveries)
+    .where(
+      and(
+        eq(deliveries.loopId, loopId),
+        eq(deliveries.kind, kind),
+        inArray(deliveries.status, ['queued', 'pending', 'sending', 'sent', 'delivered']),
+        since ? gt(deliveries.createdAt, since) : undefined
+      )
+    )
+    .groupBy(deliveries.userId);
+
+  return new Map(rows.map(row => [row.userId, row.sent]));
+}
+
+// Queue one reminder slot's worth of messages for a loop. Members who already
+// shared this period get a one-off thank-you (if the loop wants that) and no
+// nudges; everyone else gets the first reminder, then follow-ups, and a last
+// call when no later slot comes before the next issue is drafted.
+async function remindLoopMembers(loop: Loop & { members: (LoopMember & { user: User | null })[] }, now: Date) {
+  const period = await getCurrentPeriod(loop.id);
+  const contributors = new Set(period.updates.map(update => update.userId));
+  const nudgesSent = await countPeriodMessages(loop.id, 'reminder', period.start);
+  const thanksSent = await countPeriodMessages(loop.id, 'thanks', period.start);
+
+  const draftAt = subHours(await getNextIssueDate(loop), loop.draftLeadHours);
+  const nextSlot = getNextReminderAt(loop.reminderSchedule, loop.timezone, now);
+  const isLastCall = !nextSlot || nextSlot >= draftAt;
+
+  const templates = await getLoopTemplates(loop.id);
+  const deadline = formatInTimeZone(draftAt, loop.timezone, "EEEE, MMM d 'at' h:mm a");
+  let sentCount = 0;
+
+  for (const member of loop.members) {
+    const user = member.user;
+    if (!user?.phoneNumber || member.remindersPaused) continue;
+
+    if (contributors.has(user.id)) {
+      if (loop.thankContributors && !thanksSent.get(user.id)) {
+        const message = renderTemplate(templates.thanks, { firstName: user.firstName, loopName: loop.name });
+        const delivery = await enqueueSMS(user.phoneNumber, message, {
+          kind: 'thanks',
+          userId: user.id,
+          loopId: loop.id,
+        });
+        if (delivery.status === 'queued') sentCount++;
+      }
+      continue;
+    }
+
+    const template = isLastCall
+      ? templates.lastCall
+      : nudgesSent.get(user.id) ? templates.followUp : templates.reminder;
+
+    const message = renderTemplate(template, { firstName: user.firstName, loopName: loop.name, deadline });
+    const delivery = await enqueueSMS(user.phoneNumber, message, {
+      kind: 'reminder',
+      userId: user.id,
+      loopId: loop.id,
+    });
+    if (delivery.status === 'queued') sentCount++;
+  }
+
+  return sentCount;
+}
+
+// Claim a slot by inserting its run row. The unique (loop, slot) index makes
+// the insert a no-op for every instance but the first one to get there.
+async function claimSlot(loopId: number, slot: Date) {
+  const [run] = await db
+    .insert(reminderRuns)
+    .values({ loopId, slot, status: 'running' })
+    .onConflictDoNothing()
+    .returning();
+
+  return run ?? null;
+}
+
+// Reminder scheduler
+export async function sendScheduledReminders() {
+  if (!isSMSConfigured()) {
+    console.warn('SMS not configured, skipping reminders');
+    return;
+  }
+
+  const now = new Date();
+  const windowStart = subMinutes(now, GRACE_MINUTES);
+
+  try {
+    const allLoops = await db.query.loops.findMany({
+      with: {
+        members: {
+          with: {
+            user: true,
+          },
+        },
+      },
+    });
+
+    for (const loop of allLoops) {
+      // Don't catch up on slots from before the loop existed
+      const from = loop.createdAt && loop.createdAt > windowStart ? loop.createdAt : windowStart;
+      const dueSlots = getReminderSlots(loop.reminderSchedule, loop.timezone, from, now);
+
+      // If several slots were missed, one reminder is enough; claim them all
+      // so they aren't retried, and send for the most recent one
+      const claimed = [];
+      for (const slot of dueSlots) {
+        const run = await claimSlot(loop.id, slot);
+        if (run) claimed.push(run);
+      }
+
+      if (!claimed.length) continue;
+
+      const [run, ...superseded] = claimed.reverse();
+      for (const skipped of superseded) {
+        await db
+          .update(reminderRuns)
+          .set({ status: 'completed', completedAt: new Date(), error: 'Superseded by a later slot' })
+          .where(eq(reminderRuns.id, skipped.id));
+      }
+
+      console.log(`Processing reminders for loop: ${loop.name} (slot ${run.slot.toISOString()})`);
+
+      let sentCount = 0;
+      try {
+        sentCount = await remindLoopMembers(loop, now);
+
+        await db
+          .update(reminderRuns)
+          .set({ status: 'completed', sentCount, completedAt: new Date() })
+          .where(eq(reminderRuns.id, run.id));
+      } catch (error) {
+        console.error(`Error sending reminders for loop ${loop.id}:`, error);
+        await db
+          .update(reminderRuns)
+          .set({
+            status: 'failed',
+            sentCount,
+            completedAt: new Date(),
+            error: error instanceof Error ? error.message : String(error),
+          })
+          .where(eq(reminderRuns.id, run.id));
+      }
+    }
+  } catch (error) {
+    console.error('Error sending scheduled reminders:', error);
+  }
+}
+
+// Check for reminders every minute; missed minutes are caught up by the grace window
+setInterval(sendScheduledReminders, 1000 * 60);
+// Initial check
+sendScheduledReminders();
@@ -0,0 +1,87 @@
+import { db } from "@db";
+import { newsletterRevisions, newsletters, type Newsletter } from "@db/schema";
+import { and, desc, eq } from "drizzle-orm";
+import { sanitizeNewsletterHtml } from "./sanitize";
+
+export type RevisionSource = 'generated' | 'edit' | 'restore';
+
+export async function recordRevision(
+  newsletterId: number,
+  content: string,
+  source: RevisionSource,
+  authorId: number | null,
+  restoredFromId: number | null = null
+) {
+  const [revision] = await db
+    .insert(newsletterRevisions)
+    .values({ newsletterId, content, source, authorId, restoredFromId })
+    .returning();
+  return revision;
+}
+
+// Newest first, without content, for the history list
+export async function listRevisions(newsletterId: number) {
+  return db.query.newsletterRevisions.findMany({
+    where: eq(newsletterRevisions.newsletterId, newsletterId),
+    columns: {
+      content: false,
+    },
+    with: {
+      author: {
+        columns: {
+          id: true,
+          firstName: true,
+          lastName: true,
+        },
+      },
+    },
+    orderBy: desc(newsletterRevisions.createdAt),
+  });
+}
+
+export async function getRevision(newsletterId: number, revisionId: number) {
+  return db.query.newsletterRevisions.findFirst({
+    where: and(
+      eq(newsletterRevisions.id, revisionId),
+      eq(newsletterRevisions.newsletterId, newsletterId)
+    ),
+  });
+}
+
+// Replace a newsletter's content, keeping what it had before as history.
+// Newsletters from before revisions existed get their current content
+// recorded first so the first edit can still be undone.
+export async function saveNewsletterContent(
+  newsletter: Newsletter,
+  content: string,
+  authorId: number,
+  source: Exclude<RevisionSource, 'generated'> = 'edit',
+  restoredFromId: number | null = null
+): Promise<Newsletter> {
+  const sanitized = sanitizeNewsletterHtml(content);
+
+  const existing = await db.query.newsletterRevisions.findFirst({
+    where: eq(newsletterRevisions.newsletterId, newsletter.id),
+    columns: { id: true },
+  });
+  if (!existing) {
+    await db.insert(newsletterRevisions).values({
+      newsletterId: newsletter.id,
+      content: newsletter.content,
+      source: 'generated',
+      createdAt: newsletter.createdAt ?? undefined,
+    });
+  }
+
+  const [updated] = await db
+    .update(newsletters)
+    .set({
+      content: sanitized,
+      updatedAt: new Date(),
+    })
+    .where(eq(newsletters.id, newsletter.id))
+    .returning();
+
+  await recordRevision(newsletter.id, sanitized, source, authorId, restoredFromId);
+  return updated;
+}
@@ -2,12 +2,48 @@ import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { setupAuth } from "./auth";
 import { db } from "@db";
-import { loops, loopMembers, updates, newsletters, users, type User } from "@db/schema";
-import { and, eq, desc, ilike } from "drizzle-orm";
-import { generateNewsletter } from "./openai";
-import { sendWelcomeMessage, sendSMS } from "./twilio";
-import { nanoid } from 'nanoid';
-import { processAndSaveMedia } from "./storage";
+import { loops, loopMembers, updates, newsletters, newsletterRevisions, users, deliveries, reminderRuns, smsJobs, smsOptOuts, messageTemplates, generationJobs, generationJobSections, type User } from "@db/schema";
+import { and, eq, desc, ilike, inArray } from "drizzle-orm";
+import {
+  sendWelcomeMessage,
+  recordDeliveryStatus,
+  twimlMessage,
+  isValidTwilioSignature,
+  getLocalTransport,
+} from "./twilio";
+import { assignShortCode } from "./commands";
+import { getOptOutStatuses, normalizePhoneNumber } from "./optouts";
+import { handleInboundMessage } from "./inbound";
+import { createSMSJob, getSMSJobProgress } from "./queue";
+import { createGenerationJob, getGenerationJobProgress, retryGenerationJob } from "./generation-jobs";
+import { isValidTimeOfDay } from "./quiet-hours";
+import { getAvailableLLMProviders, isLLMProviderName } from "./llm";
+import { NEWSLETTER_CONTENT_SECURITY_POLICY } from "./sanitize";
+import { renderNewsletterPage } from "./newsletter-render";
+import { getRevision, listRevisions, saveNewsletterContent } from "./revisions";
+import { getNextReminderAt, isValidTimeZone } from "./reminders";
+import {
+  TEMPLATE_KEYS,
+  TEMPLATE_VARIABLES,
+  DEFAULT_TEMPLATES,
+  isTemplateKey,
+  findUnknownVariables,
+  saveLoopTemplate,
+} from "./templates";
+import {
+  sendNewsletter,
+  SENDABLE_STATUSES,
+  getCurrentPeriod,
+  getNextIssueDate,
+  selectUpdatesForIssue,
+  createNewsletterDraft,
+} from "./newsletters";
+import {
+  regenerateSection,
+  analyzeUpdatesForHighlights,
+  suggestNewsletterImprovements,
+} from "./newsletter-generator";
+import { getRewriteSource, parseNewsletterBlocks } from "./newsletter-blocks";
 import { randomBytes } from 'node:crypto';
 
 // Middleware to check if user has privileged access
@@ -24,6 +60,16 @@ const requirePrivilegedAccess = async (req: Request, res: Response, next: NextFu
   next();
 };
 
+// Middleware to reject webhook calls that weren't signed by Twilio
+const requireTwilioSignature = (req: Request, res: Response, next: NextFunction) => {
+  if (!isValidTwilioSignature(req.get('X-Twilio-Signature'), req.originalUrl, req.body)) {
+    console.warn(`Rejected unsigned Twilio webhook request to ${req.originalUrl}`);
+    return res.status(403).send("Invalid Twilio signature");
+  }
+
+  next();
+};
+
 export function registerRoutes(app: Express): Server {
   // Setup authentication routes
   setupAuth(app);
@@ -53,7 +99,11 @@ export function registerRoutes(app: Express): Server {
               user: true
             }
           },
-          newsletters: true
+          newsletters: true,
+          reminderRuns: {
+            orderBy: desc(reminderRuns.slot),
+            limit: 1,
+          },
         },
         orderBy: sort === "recent" ? [desc(loops.createdAt)] : undefined,
       });
@@ -74,6 +124,8 @@ export function registerRoutes(app: Express): Server {
         memberCount: loop.members?.length || 0,
         lastNewsletter: loop.newsletters?.[0]?.sentAt || null,
         updateCount: loop.updates?.length || 0,
+        lastReminderRun: loop.reminderRuns?.[0] ?? null,
+        nextReminderAt: getNextReminderAt(loop.reminderSchedule, loop.timezone),
       }));
 
       res.json(loopsWithStats);
@@ -101,6 +153,15 @@ export function registerRoutes(app: Express): Server {
         },
         newsletters: {
           orderBy: desc(newsletters.sentAt),
+          with: {
+            deliveries: {
+              orderBy: desc(deliveries.createdAt),
+            },
+          },
+        },
+        reminderRuns: {
+          orderBy: desc(reminderRuns.slot),
+          limit: 5,
         },
       },
       limit: 1,
@@ -110,7 +171,19 @@ export function registerRoutes(app: Express): Server {
       return res.status(404).send("Loop not found");
     }
 
-    res.json(loop);
+    const optOutStatuses = await getOptOutStatuses(
+      loop.members.map(member => member.user?.phoneNumber).filter((phone): phone is string => !!phone),
+      loop.id
+    );
+
+    res.json({
+      ...loop,
+      members: loop.members.map(member => ({
+        ...member,
+        optedOut: member.user ? optOutStatuses.get(normalizePhoneNumber(member.user.phoneNumber)) ?? null : null,
+      })),
+      nextReminderAt: getNextReminderAt(loop.reminderSchedule, loop.timezone),
+    });
   });
 
   app.get("/api/admin/stats", requirePrivilegedAccess, async (req, res) => {
@@ -142,9 +215,9 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Twilio Webhook for incoming messages
-  app.post("/api/webhooks/twilio", async (req, res) => {
+  app.post("/api/webhooks/twilio", requireTwilioSignature, async (req, res) => {
     try {
-      const { From, Body } = req.body;
+      const { From, Body, MessageSid } = req.body;
 
       // Extract all media URLs and content types
       const mediaUrls: { url: string; contentType: string }[] = [];
@@ -163,130 +236,92 @@ export function registerRoutes(app: Express): Server {
         rawBody: req.body
       });
 
-      // Clean up the phone number (remove the '+' prefix if present)
-      const phoneNumber = From.startsWith('+') ? From.substring(1) : From;
+      const result = await handleInboundMessage({ from: From, body: Body, media: mediaUrls, messageSid: MessageSid });
+      if ('error' in result) {
+        return res.status(result.status).send(result.error);
+      }
 
-      // Find the user by phone number
-      const [user] = await db
-        .select()
-        .from(users)
-        .where(eq(users.phoneNumber, phoneNumber))
-        .limit(1);
+      // Return a TwiML response
+      res.type('text/xml').send(twimlMessage(result.reply));
+    } catch (error) {
+      console.error("Error processing Twilio webhook:", error);
+      if (error instanceof Error) {
+        console.error('Error details:', {
+          message: error.message,
+          stack: error.stack,
+          name: error.name
+        });
+      }
+      res.status(500).send("Internal server error");
+    }
+  });
+
+  // Twilio status callback for outbound messages
+  app.post("/api/webhooks/twilio/status", requireTwilioSignature, async (req, res) => {
+    try {
+      const { MessageSid, MessageStatus, ErrorCode } = req.body;
 
-      if (!user) {
-        console.warn(`Received message from unknown number: ${phoneNumber}`);
-        return res.status(404).send("User not found");
+      if (!MessageSid || !MessageStatus) {
+        return res.status(400).send("Missing message status");
       }
 
-      // Find all loops this user is a member of
-      const userLoops = await db.query.loopMembers.findMany({
-        where: eq(loopMembers.userId, user.id),
-        with: {
-          loop: true,
-        },
-      });
+      await recordDeliveryStatus(MessageSid, MessageStatus, ErrorCode);
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Error processing Twilio status callback:", error);
+      res.status(500).send("Internal server error");
+    }
+  });
 
-      if (!userLoops.length) {
-        console.warn(`User ${user.id} is not a member of any loops`);
-        return res.status(404).send("No loops found for user");
+  // Development only: what the local SMS transport has sent, and a way to
+  // text the app as a member without a phone. Never registered outside
+  // development, since texting as any number skips the Twilio signature check.
+  if (app.get("env") === "development") {
+    app.get("/api/dev/sms", requirePrivilegedAccess, (req, res) => {
+      const local = getLocalTransport();
+      if (!local) {
+        return res.status(404).send("Local SMS transport is not active");
       }
 
-      // Extract loop name from message if specified
-      const loopNameMatch = Body.match(/\[(.*?)\]/);
-      const targetLoops = loopNameMatch
-        ? userLoops.filter(membership => membership.loop!.name.toLowerCase() === loopNameMatch[1].toLowerCase())
-        : userLoops;
+      res.json(local.messages);
+    });
 
-      if (loopNameMatch && !targetLoops.length) {
-        console.warn(`Specified loop not found: ${loopNameMatch[1]}`);
-        return res.status(404).send("Specified loop not found");
+    app.post("/api/dev/sms/inbound", requirePrivilegedAccess, async (req, res) => {
+      const local = getLocalTransport();
+      if (!local) {
+        return res.status(404).send("Local SMS transport is not active");
       }
 
-      // Process all media files
-      let processedMediaUrls: string[] = [];
-      if (mediaUrls.length > 0) {
-        try {
-          console.log(`Processing ${mediaUrls.length} media files`);
-          processedMediaUrls = await Promise.all(
-            mediaUrls.map(async ({ url, contentType }) => {
-              console.log('Processing media:', {
-                url,
-                contentType,
-                userId: user.id
-              });
-              return processAndSaveMedia(url, contentType);
-            })
-          );
-          console.log('Successfully processed all media:', processedMediaUrls);
-        } catch (error) {
-          console.error('Failed to process media:', error);
-          if (error instanceof Error) {
-            console.error('Error details:', {
-              message: error.message,
-              stack: error.stack,
-              name: error.name
-            });
-          }
-          // Continue without the media if upload fails
-        }
+      const { from, body } = req.body;
+      if (!from || !body) {
+        return res.status(400).send("Phone number and message are required");
       }
 
-      // Save update to each relevant loop
-      const savedUpdates = await Promise.all(
-        targetLoops.map(async membership => {
-          const update = await db
-            .insert(updates)
-            .values({
-              loopId: membership.loop!.id,
-              userId: user.id,
-              content: Body,
-              mediaUrls: processedMediaUrls,
-            })
-            .returning();
-
-          console.log('Saved update:', {
-            updateId: update[0].id,
-            loopId: membership.loop!.id,
-            userId: user.id,
-            mediaCount: processedMediaUrls.length,
-            mediaUrls: processedMediaUrls
-          });
-          return update[0];
-        })
-      );
+      try {
+        const phoneNumber = normalizePhoneNumber(from);
+        local.record('inbound', phoneNumber, body);
 
-      console.log(`Saved ${savedUpdates.length} updates for user ${user.id}`);
+        const result = await handleInboundMessage({ from: phoneNumber, body, media: [] });
+        const reply = 'error' in result ? `(${result.status}) ${result.error}` : result.reply;
+        local.record('outbound', phoneNumber, reply);
 
-      // Return a TwiML response with appropriate message
-      let responseMessage = "Thanks for your update";
-      if (loopNameMatch) {
-        // Use the original loop name from the matched loop for the response
-        const matchedLoop = targetLoops[0].loop!;
-        responseMessage += ` to ${matchedLoop.name}`;
-      } else if (savedUpdates.length > 1) {
-        responseMessage += `s to all your loops`;
+        res.json({ reply });
+      } catch (error) {
+        console.error("Error simulating inbound SMS:", error);
+        res.status(500).send("Failed to simulate inbound SMS");
       }
-      responseMessage += "!";
+    });
 
-      // Return a TwiML response
-      res.type('text/xml').send(`
-        <?xml version="1.0" encoding="UTF-8"?>
-        <Response>
-          <Message>${responseMessage}</Message>
-        </Response>
-      `);
-    } catch (error) {
-      console.error("Error processing Twilio webhook:", error);
-      if (error instanceof Error) {
-        console.error('Error details:', {
-          message: error.message,
-          stack: error.stack,
-          name: error.name
-        });
+    app.delete("/api/dev/sms", requirePrivilegedAccess, (req, res) => {
+      const local = getLocalTransport();
+      if (!local) {
+        return res.status(404).send("Local SMS transport is not active");
       }
-      res.status(500).send("Internal server error");
-    }
-  });
+
+      local.clear();
+      res.sendStatus(204);
+    });
+  }
 
   // Loops
   app.get("/api/loops", async (req, res) => {
@@ -348,7 +383,13 @@ export function registerRoutes(app: Express): Server {
       return res.status(403).send("Not authorized");
     }
 
-    res.json(loop);
+    res.json({
+      ...loop,
+      shortCode: await assignShortCode(loop),
+      nextIssueAt: await getNextIssueDate(loop),
+      nextReminderAt: getNextReminderAt(loop.reminderSchedule, loop.timezone),
+      llmProviders: getAvailableLLMProviders(),
+    });
   });
 
   app.post("/api/loops", async (req, res) => {
@@ -357,7 +398,11 @@ export function registerRoutes(app: Express): Server {
       return res.status(401).send("Not authenticated");
     }
 
-    const { name, frequency, vibe, context, reminderSchedule } = req.body;
+    const { name, frequency, vibe, context, reminderSchedule, timezone } = req.body;
+
+    if (timezone !== undefined && !isValidTimeZone(timezone)) {
+      return res.status(400).send("Invalid timezone");
+    }
 
     try {
       // Start a transaction to ensure both operations succeed or fail together
@@ -369,10 +414,14 @@ export function registerRoutes(app: Express): Server {
           vibe,
           context,
           reminderSchedule,
+          timezone,
           creatorId: user.id,
         })
         .returning();
 
+      // Give the loop a short code members can use over SMS
+      loop.shortCode = await assignShortCode(loop);
+
       // Add the creator as a member
       await db
         .insert(loopMembers)
@@ -383,7 +432,10 @@ export function registerRoutes(app: Express): Server {
         });
 
       // Try to send welcome message, but don't block on failure
-      sendWelcomeMessage(user.phoneNumber, loop.name, user.firstName, "Loop Creator")
+      sendWelcomeMessage(user.phoneNumber, loop, user.firstName, "Loop Creator", {
+        userId: user.id,
+        loopId: loop.id,
+      })
         .catch(error => console.warn('Failed to send welcome SMS:', error));
 
       // Fetch the complete loop with members
@@ -421,7 +473,39 @@ export function registerRoutes(app: Express): Server {
       return res.status(401).send("Not authenticated");
     }
 
-    const { name, frequency, vibe, context, reminderSchedule } = req.body;
+    const {
+      name,
+      frequency,
+      vibe,
+      context,
+      reminderSchedule,
+      timezone,
+      draftLeadHours,
+      autoSend,
+      thankContributors,
+      quietHoursStart,
+      quietHoursEnd,
+      llmProvider,
+    } = req.body;
+
+    if (timezone !== undefined && !isValidTimeZone(timezone)) {
+      return res.status(400).send("Invalid timezone");
+    }
+
+    if (draftLeadHours !== undefined && (!Number.isInteger(draftLeadHours) || draftLeadHours < 0)) {
+      return res.status(400).send("draftLeadHours must be a non-negative whole number of hours");
+    }
+
+    for (const time of [quietHoursStart, quietHoursEnd]) {
+      if (time != null && !isValidTimeOfDay(time)) {
+        return res.status(400).send("Quiet hours must be times like 21:00");
+      }
+    }
+
+    // A loop can keep a provider that's since been unconfigured; generation falls back to the default
+    if (llmProvider != null && !isLLMProviderName(llmProvider)) {
+      return res.status(400).send("Unknown newsletter writer");
+    }
 
     const [loop] = await db
       .update(loops)
@@ -431,6 +515,13 @@ export function registerRoutes(app: Express): Server {
         vibe,
         context,
         reminderSchedule,
+        timezone,
+        draftLeadHours,
+        autoSend,
+        thankContributors,
+        quietHoursStart,
+        quietHoursEnd,
+        llmProvider,
       })
       .where(
         and(
@@ -482,6 +573,68 @@ export function registerRoutes(app: Express): Server {
           .delete(updates)
           .where(eq(updates.loopId, loop.id));
 
+        // Delete delivery records for the loop and its newsletters
+        await tx
+          .delete(deliveries)
+          .where(eq(deliveries.loopId, loop.id));
+
+        const loopNewsletters = await tx
+          .select({ id: newsletters.id })
+          .from(newsletters)
+          .where(eq(newsletters.loopId, loop.id));
+
+        if (loopNewsletters.length) {
+          await tx
+            .delete(deliveries)
+            .where(inArray(deliveries.newsletterId, loopNewsletters.map(n => n.id)));
+
+          // Restores point at earlier revisions, so clear those links first
+          await tx
+            .update(newsletterRevisions)
+            .set({ restoredFromId: null })
+            .where(inArray(newsletterRevisions.newsletterId, loopNewsletters.map(n => n.id)));
+
+          await tx
+            .delete(newsletterRevisions)
+            .where(inArray(newsletterRevisions.newsletterId, loopNewsletters.map(n => n.id)));
+        }
+
+        // Delete group message jobs, now that their deliveries are gone
+        await tx
+          .delete(smsJobs)
+          .where(eq(smsJobs.loopId, loop.id));
+
+        // Delete newsletter generation jobs, before the drafts they point at
+        const loopGenerationJobs = await tx
+          .select({ id: generationJobs.id })
+          .from(generationJobs)
+          .where(eq(generationJobs.loopId, loop.id));
+
+        if (loopGenerationJobs.length > 0) {
+          await tx
+            .delete(generationJobSections)
+            .where(inArray(generationJobSections.jobId, loopGenerationJobs.map(j => j.id)));
+        }
+
+        await tx
+          .delete(generationJobs)
+          .where(eq(generationJobs.loopId, loop.id));
+
+        // Delete opt-outs from just this loop; opt-outs from everything stay
+        await tx
+          .delete(smsOptOuts)
+          .where(eq(smsOptOuts.loopId, loop.id));
+
+        // Delete the loop's message templates
+        await tx
+          .delete(messageTemplates)
+          .where(eq(messageTemplates.loopId, loop.id));
+
+        // Delete the reminder run history
+        await tx
+          .delete(reminderRuns)
+          .where(eq(reminderRuns.loopId, loop.id));
+
         // Delete all newsletters
         await tx
           .delete(newsletters)
@@ -508,6 +661,77 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Loop Members
+  // Message templates: each text the loop sends, with its own wording if it has one
+  app.get("/api/loops/:id/templates", async (req, res) => {
+    const user = req.user as User | undefined;
+    if (!user?.id) {
+      return res.status(401).send("Not authenticated");
+    }
+
+    const loop = await db.query.loops.findFirst({
+      where: and(eq(loops.id, parseInt(req.params.id)), eq(loops.creatorId, user.id)),
+      with: {
+        messageTemplates: true,
+      },
+    });
+
+    if (!loop) {
+      return res.status(404).send("Loop not found");
+    }
+
+    res.json(TEMPLATE_KEYS.map(key => {
+      const override = loop.messageTemplates.find(template => template.key === key);
+      return {
+        key,
+        body: override?.body ?? DEFAULT_TEMPLATES[key],
+        defaultBody: DEFAULT_TEMPLATES[key],
+        isCustom: !!override,
+        variables: TEMPLATE_VARIABLES[key],
+      };
+    }));
+  });
+
+  app.put("/api/loops/:id/templates/:key", async (req, res) => {
+    const user = req.user as User | undefined;
+    if (!user?.id) {
+      return res.status(401).send("Not authenticated");
+    }
+
+    const { key } = req.params;
+    const { body } = req.body;
+
+    if (!isTemplateKey(key)) {
+      return res.status(404).send("Unknown template");
+    }
+
+    if (body != null && typeof body !== 'string') {
+      return res.status(400).send("Template body must be text");
+    }
+
+    const unknownVariables = body ? findUnknownVariables(key, body) : [];
+    if (unknownVariables.length) {
+      return res.status(400).send(`Unknown variable: {{${unknownVariables[0]}}}. This message can use ${TEMPLATE_VARIABLES[key].map(name => `{{${name}}}`).join(', ')}`);
+    }
+
+    try {
+      const [loop] = await db
+        .select()
+        .from(loops)
+        .where(and(eq(loops.id, parseInt(req.params.id)), eq(loops.creatorId, user.id)))
+        .limit(1);
+
+      if (!loop) {
+        return res.status(404).send("Loop not found");
+      }
+
+      await saveLoopTemplate(loop.id, key, body);
+      res.json({ message: "Template saved" });
+    } catch (error) {
+      console.error("Error saving template:", error);
+      res.status(500).send("Failed to save template");
+    }
+  });
+
   app.post("/api/loops/:id/members", async (req, res) => {
     const user = req.user as User | undefined;
     if (!user?.id) {
@@ -591,7 +815,10 @@ export function registerRoutes(app: Express): Server {
 
       // Send welcome message without waiting for response
       const creatorName = loop.creator ? `${loop.creator.firstName} ${loop.creator.lastName}` : "your loop admin";
-      sendWelcomeMessage(memberUser.phoneNumber, loop.name, memberUser.firstName, creatorName)
+      sendWelcomeMessage(memberUser.phoneNumber, loop, memberUser.firstName, creatorName, {
+        userId: memberUser.id,
+        loopId: loop.id,
+      })
         .catch(error => console.error('Failed to send welcome SMS:', error));
 
       // Return member with user data
@@ -609,6 +836,71 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // Member delivery settings: their own timezone and quiet hours, or null to use the loop's
+  app.put("/api/loops/:id/members/:memberId", async (req, res) => {
+    const user = req.user as User | undefined;
+    if (!user?.id) {
+      return res.status(401).send("Not authenticated");
+    }
+
+    const { timezone, quietHoursStart, quietHoursEnd } = req.body;
+
+    if (timezone != null && !isValidTimeZone(timezone)) {
+      return res.status(400).send("Invalid timezone");
+    }
+
+    for (const time of [quietHoursStart, quietHoursEnd]) {
+      if (time != null && !isValidTimeOfDay(time)) {
+        return res.status(400).send("Quiet hours must be times like 21:00");
+      }
+    }
+
+    if ((quietHoursStart == null) !== (quietHoursEnd == null)) {
+      return res.status(400).send("Set both ends of the quiet hours, or neither");
+    }
+
+    try {
+      const [loop] = await db
+        .select()
+        .from(loops)
+        .where(
+          and(
+            eq(loops.id, parseInt(req.params.id)),
+            eq(loops.creatorId, user.id)
+          )
+        )
+        .limit(1);
+
+      if (!loop) {
+        return res.status(404).send("Loop not found or not authorized");
+      }
+
+      const [member] = await db
+        .update(loopMembers)
+        .set({
+          timezone: timezone || null,
+          quietHoursStart: quietHoursStart || null,
+          quietHoursEnd: quietHoursEnd || null,
+        })
+        .where(
+          and(
+            eq(loopMembers.loopId, loop.id),
+            eq(loopMembers.id, parseInt(req.params.memberId))
+          )
+        )
+        .returning();
+
+      if (!member) {
+        return res.status(404).send("Member not found");
+      }
+
+      res.json(member);
+    } catch (error) {
+      console.error("Error updating member:", error);
+      res.status(500).send("Failed to update member");
+    }
+  });
+
   app.delete("/api/loops/:id/members/:memberId", async (req, res) => {
     const user = req.user as User | undefined;
     if (!user?.id) {
@@ -727,59 +1019,70 @@ export function registerRoutes(app: Express): Server {
 
     const loopId = parseInt(req.params.id);
 
-    // Get all updates for this loop
     const loop = await db.query.loops.findFirst({
       where: eq(loops.id, loopId),
-      with: {
-        updates: {
-          with: {
-            user: true,
-          },
-        },
-      },
     });
 
     if (!loop) {
       return res.status(404).send("Loop not found");
     }
 
-    if (!loop.updates.length) {
+    // Only updates from the current issue period
+    const { updates: periodUpdates } = await getCurrentPeriod(loopId);
+
+    if (!periodUpdates.length) {
       return res.status(400).send("No updates available for newsletter generation");
     }
 
-    // Generate newsletter content using OpenAI
-    const updatesForAI = loop.updates.map(update => {
-      const user = update.user;
-      if (!user) {
-        throw new Error("Update missing user information");
-      }
-      return {
-        content: update.content,
-        userName: `${user.firstName} ${user.lastName}`,
-      };
-    });
+    const newsletter = await createNewsletterDraft(loop, periodUpdates);
 
-    const newsletterContent = await generateNewsletter(
-      loop.name,
-      updatesForAI,
-      loop.vibe
-    );
+    res.json(newsletter);
+  });
 
-    // Generate a unique URL ID
-    const urlId = nanoid(10);
+  // Current issue period: unpublished updates since the last newsletter went out
+  app.get("/api/loops/:id/period", requirePrivilegedAccess, async (req, res) => {
+    try {
+      const loopId = parseInt(req.params.id);
+      const period = await getCurrentPeriod(loopId);
+      res.json(period);
+    } catch (error) {
+      console.error("Error fetching issue period:", error);
+      res.status(500).send("Failed to fetch issue period");
+    }
+  });
 
-    // Save the newsletter
-    const [newsletter] = await db
-      .insert(newsletters)
-      .values({
-        content: newsletterContent,
-        loopId,
-        urlId,
-        status: 'draft'
-      })
-      .returning();
+  // Themes in the updates that would go into the next issue, before generating it
+  app.post("/api/loops/:id/period/highlights", requirePrivilegedAccess, async (req, res) => {
+    const { updateIds } = req.body;
 
-    res.json(newsletter);
+    if (updateIds !== undefined && (!Array.isArray(updateIds) || !updateIds.every(Number.isInteger))) {
+      return res.status(400).send("updateIds must be an array of update IDs");
+    }
+
+    try {
+      const loopId = parseInt(req.params.id);
+      const loop = await db.query.loops.findFirst({
+        where: eq(loops.id, loopId),
+      });
+
+      if (!loop) {
+        return res.status(404).send("Loop not found");
+      }
+
+      const issueUpdates = await selectUpdatesForIssue(loopId, updateIds);
+      if (!issueUpdates.length) {
+        return res.status(400).send("No updates to look at yet");
+      }
+
+      const highlights = await analyzeUpdatesForHighlights(
+        issueUpdates.map(update => `${update.user ? `${update.user.firstName} ${update.user.lastName}` : "A member"}: ${update.content}`),
+        loop.llmProvider
+      );
+      res.json({ highlights });
+    } catch (error) {
+      console.error("Error finding highlights:", error);
+      res.status(500).send(error instanceof Error ? error.message : "Failed to find highlights");
+    }
   });
 
   // Newsletter Management Routes
@@ -790,81 +1093,49 @@ export function registerRoutes(app: Express): Server {
     }
 
     const loopId = parseInt(req.params.id);
-    const { customHeader, customClosing } = req.body;
+    const { customHeader, customClosing, saveAsDefaults, updateIds } = req.body;
+
+    if ((customHeader != null && typeof customHeader !== 'string') || (customClosing != null && typeof customClosing !== 'string')) {
+      return res.status(400).send("customHeader and customClosing must be text");
+    }
+
+    if (updateIds !== undefined && (!Array.isArray(updateIds) || !updateIds.every(Number.isInteger))) {
+      return res.status(400).send("updateIds must be an array of update IDs");
+    }
 
     try {
-      // Get all updates for this loop
       const loop = await db.query.loops.findFirst({
         where: eq(loops.id, loopId),
-        with: {
-          updates: {
-            with: {
-              user: true,
-            },
-          },
-        },
       });
 
       if (!loop) {
         return res.status(404).send("Loop not found");
       }
 
-      if (!loop.updates.length) {
+      // Defaults to the current period unless the admin picked specific updates
+      const issueUpdates = await selectUpdatesForIssue(loopId, updateIds);
+
+      if (!issueUpdates.length) {
         return res.status(400).send("No updates available for newsletter generation");
       }
 
-      // Generate newsletter content using OpenAI
-      const updatesForAI = loop.updates.map(update => {
-        const user = update.user;
-        if (!user) {
-          throw new Error("Update missing user information");
-        }
-        return {
-          content: update.content,
-          userName: `${user.firstName} ${user.lastName}`,
-          mediaUrls: update.mediaUrls || [],
-        };
-      });
-
-      const newsletterContent = await generateNewsletter(
-        loop.name,
-        updatesForAI,
-        loop.vibe,
-        { customHeader, customClosing }
-      );
-
-      // Generate a unique URL ID
-      const urlId = nanoid(10);
-
-      // Save the draft newsletter
-      const [newsletter] = await db
-        .insert(newsletters)
-        .values({
-          loopId,
-          content: newsletterContent,
-          status: 'draft',
-          urlId,
-        })
-        .returning();
-
-      if (!newsletter) {
-        throw new Error("Failed to create newsletter");
+      if (saveAsDefaults) {
+        await db
+          .update(loops)
+          .set({
+            newsletterHeader: customHeader?.trim() || null,
+            newsletterClosing: customClosing?.trim() || null,
+          })
+          .where(eq(loops.id, loopId));
       }
 
-      // Return consistent response format
-      res.json({
-        newsletter: {
-          id: newsletter.id,
-          loopId: newsletter.loopId,
-          content: newsletter.content,
-          status: newsletter.status,
-          urlId: newsletter.urlId,
-          sentAt: newsletter.sentAt,
-          createdAt: newsletter.createdAt,
-          updatedAt: newsletter.updatedAt
-        },
-        url: `/newsletters/${urlId}`
-      });
+      // Sections are generated in the background; the admin polls the job for progress
+      const job = await createGenerationJob(loop, issueUpdates, {
+        customHeader: customHeader ?? undefined,
+        customClosing: customClosing ?? undefined,
+      }, user.id);
+
+      res.status(202).json(await getGenerationJobProgress(job.id));
     } catch (error) {
       console.error("Error generating newsletter:", error);
       res.status(500).send(error instanceof Error ? error.message : "Failed to generate newsletter");
@@ -886,93 +1157,8 @@ export function registerRoutes(app: Express): Server {
         return res.status(404).send("Newsletter not found");
       }
 
-      // Render the newsletter content with improved image handling
-      res.send(`
-        <!DOCTYPE html>
-        <html>
-        <head>
-          <meta charset="UTF-8">
-          <meta name="viewport" content="width=device-width, initial-scale=1.0">
-          <link href="https://cdn.jsdelivr.net/npm/tailwindcss@2.2.19/dist/tailwind.min.css" rel="stylesheet">
-          <style>
-            .newsletter-content {
-              max-width: 800px;
-              margin: 0 auto;
-              padding: 2rem;
-            }
-            .newsletter-content img {
-              max-width: 250px;
-              width: 100%;
-              height: auto;
-              margin: 1rem auto;
-              border-radius: 0.5rem;
-              box-shadow: 0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 2px 4px -1px rgba(0, 0, 0, 0.06);
-              display: block;
-            }
-            .newsletter-content figure {
-              margin: 1rem 0;
-              text-align: center;
-            }
-            .newsletter-content h1 {
-              font-size: 2.25rem;
-              font-weight: bold;
-              margin-bottom: 1.5rem;
-              color: #1a1a1a;
-              text-align: center;
-            }
-            .newsletter-content h2 {
-              font-size: 1.5rem;
-              font-weight: bold;
-              margin-top: 2rem;
-              margin-bottom: 1rem;
-              color: #2d3748;
-            }
-            .newsletter-content h3 {
-              font-size: 1.25rem;
-              font-weight: bold;
-              margin-top: 1.5rem;
-              margin-bottom: 0.75rem;
-              color: #4a5568;
-            }
-            .newsletter-content p {
-              margin-bottom: 1rem;
-              line-height: 1.6;
-            }
-            .newsletter-content hr {
-              margin: 2rem 0;
-              border: 0;
-              height: 1px;
-              background-color: #e2e8f0;
-            }
-            .newsletter-content ul {
-              list-style-type: disc;
-              margin-left: 1.5rem;
-              margin-bottom: 1rem;
-            }
-            .newsletter-content li {
-              margin-bottom: 0.5rem;
-            }
-            .update-block {
-              border: 1px solid #e2e8f0;
-              border-radius: 0.5rem;
-              padding: 1.5rem;
-              margin-bottom: 2rem;
-              background-color: #f8fafc;
-            }
-            .update-content {
-              margin: 1rem 0;
-            }
-          </style>
-        </head>
-        <body class="bg-gray-50 min-h-screen py-8">
-          <div class="max-w-4xl mx-auto px-4">
-            <article class="bg-white rounded-xl shadow-lg overflow-hidden">
-              ${newsletter.content}
-            </article>
-          </div>
-        </body>
-        </html>
-      `);
+      res.setHeader("Content-Security-Policy", NEWSLETTER_CONTENT_SECURITY_POLICY);
+      res.send(renderNewsletterPage(newsletter.content));
     } catch (error) {
       console.error("Error serving newsletter:", error);
       res.status(500).send("Failed to load newsletter");
@@ -1001,28 +1187,203 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // The public page for unsaved content, so the editor can preview exactly what members will see
+  app.post("/api/loops/:id/newsletters/render", requirePrivilegedAccess, (req, res) => {
+    const { content } = req.body;
+
+    if (typeof content !== "string") {
+      return res.status(400).send("Newsletter content is required");
+    }
+
+    res.setHeader("Content-Security-Policy", NEWSLETTER_CONTENT_SECURITY_POLICY);
+    res.send(renderNewsletterPage(content));
+  });
+
+  // Themes in the updates a draft was generated from
+  app.post("/api/loops/:id/newsletters/:newsletterId/highlights", requirePrivilegedAccess, async (req, res) => {
+    try {
+      const newsletter = await db.query.newsletters.findFirst({
+        where: and(
+          eq(newsletters.id, parseInt(req.params.newsletterId)),
+          eq(newsletters.loopId, parseInt(req.params.id))
+        ),
+        with: {
+          loop: true,
+          updates: {
+            with: {
+              user: true,
+            },
+            orderBy: updates.createdAt,
+          },
+        },
+      });
+
+      if (!newsletter) {
+        return res.status(404).send("Newsletter not found");
+      }
+
+      if (!newsletter.updates.length) {
+        return res.status(400).send("This newsletter has no updates to look at");
+      }
+
+      const highlights = await analyzeUpdatesForHighlights(
+        newsletter.updates.map(update => `${update.user ? `${update.user.firstName} ${update.user.lastName}` : "A member"}: ${update.content}`),
+        newsletter.loop.llmProvider
+      );
+      res.json({ highlights });
+    } catch (error) {
+      console.error("Error finding highlights:", error);
+      res.status(500).send(error instanceof Error ? error.message : "Failed to find highlights");
+    }
+  });
+
+  // Suggestions for the saved version of a draft
+  app.post("/api/loops/:id/newsletters/:newsletterId/suggestions", requirePrivilegedAccess, async (req, res) => {
+    try {
+      const newsletter = await db.query.newsletters.findFirst({
+        where: and(
+          eq(newsletters.id, parseInt(req.params.newsletterId)),
+          eq(newsletters.loopId, parseInt(req.params.id))
+        ),
+        with: {
+          loop: true,
+        },
+      });
+
+      if (!newsletter) {
+        return res.status(404).send("Newsletter not found");
+      }
+
+      if (newsletter.status !== "draft") {
+        return res.status(400).send("Only drafts can be reviewed");
+      }
+
+      const suggestions = await suggestNewsletterImprovements(
+        newsletter.content,
+        newsletter.loop.vibe,
+        newsletter.loop.llmProvider
+      );
+      res.json({ suggestions });
+    } catch (error) {
+      console.error("Error suggesting improvements:", error);
+      res.status(500).send(error instanceof Error ? error.message : "Failed to suggest improvements");
+    }
+  });
+
+  // Rewrite one section or paragraph of a draft, picked by its block index in
+  // the saved draft. Its text and updates are read here rather than taken from
+  // the request. Only the new text comes back; the editor puts it in place.
+  app.post("/api/loops/:id/newsletters/:newsletterId/regenerate-section", requirePrivilegedAccess, async (req, res) => {
+    const { blockIndex, instruction } = req.body;
+
+    if (!Number.isInteger(blockIndex) || blockIndex < 0) {
+      return res.status(400).send("blockIndex must be a block's position in the draft");
+    }
+
+    if (instruction != null && (typeof instruction !== "string" || instruction.length > 500)) {
+      return res.status(400).send("instruction must be text of up to 500 characters");
+    }
+
+    try {
+      const loopId = parseInt(req.params.id);
+      const newsletter = await db.query.newsletters.findFirst({
+        where: and(
+          eq(newsletters.id, parseInt(req.params.newsletterId)),
+          eq(newsletters.loopId, loopId)
+        ),
+        with: {
+          loop: {
+            with: {
+              members: true,
+            },
+          },
+        },
+      });
+
+      if (!newsletter) {
+        return res.status(404).send("Newsletter not found");
+      }
+
+      if (newsletter.status !== "draft") {
+        return res.status(400).send("Only drafts can be regenerated");
+      }
+
+      const source = getRewriteSource(parseNewsletterBlocks(newsletter.content), blockIndex);
+      if (!source) {
+        return res.status(400).send("Only sections and paragraphs can be rewritten");
+      }
+
+      if (!source.heading.trim() && !source.body.trim()) {
+        return res.status(400).send("There's no text to rewrite");
+      }
+
+      // The section's updates as members sent them, matched to the ones shown
+      // in it by author and text. Updates typed into the draft by hand are left out.
+      const newsletterUpdates = await db.query.updates.findMany({
+        where: eq(updates.newsletterId, newsletter.id),
+        with: {
+          user: true,
+        },
+      });
+      const normalize = (text: string) => text.replace(/\s+/g, " ").trim();
+      const sectionUpdates = source.updates.flatMap(shown => {
+        const update = newsletterUpdates.find(update =>
+          update.user &&
+          `${update.user.firstName} ${update.user.lastName}` === shown.userName &&
+          normalize(update.content) === normalize(shown.text)
+        );
+        return update ? [update] : [];
+      });
+
+      const { loop } = newsletter;
+      const memberContexts = new Map(loop.members.map(member => [member.userId, member.context]));
+
+      const rewrite = await regenerateSection({
+        loopName: loop.name,
+        loopContext: loop.context,
+        vibe: loop.vibe,
+        heading: source.heading,
+        body: source.body,
+        updates: sectionUpdates.map(update => ({
+          userName: `${update.user!.firstName} ${update.user!.lastName}`,
+          content: update.content,
+          userContext: memberContexts.get(update.userId) ?? null,
+        })),
+        instruction,
+      }, loop.llmProvider);
+
+      res.json(rewrite);
+    } catch (error) {
+      console.error("Error regenerating newsletter section:", error);
+      res.status(500).send(error instanceof Error ? error.message : "Failed to regenerate section");
+    }
+  });
+
   app.put("/api/loops/:id/newsletters/:newsletterId", requirePrivilegedAccess, async (req, res) => {
+    const user = req.user as User | undefined;
+    if (!user?.id) {
+      return res.status(401).send("Not authenticated");
+    }
+
     try {
       const { content } = req.body;
 
-      const [updatedNewsletter] = await db
-        .update(newsletters)
-        .set({
-          content,
-          updatedAt: new Date(),
-        })
-        .where(
-          and(
-            eq(newsletters.id, parseInt(req.params.newsletterId)),
-            eq(newsletters.loopId, parseInt(req.params.id))
-          )
-        )
-        .returning();
+      if (typeof content !== "string") {
+        return res.status(400).send("Newsletter content is required");
+      }
 
-      if (!updatedNewsletter) {
+      const newsletter = await db.query.newsletters.findFirst({
+        where: and(
+          eq(newsletters.id, parseInt(req.params.newsletterId)),
+          eq(newsletters.loopId, parseInt(req.params.id))
+        ),
+      });
+
+      if (!newsletter) {
         return res.status(404).send("Newsletter not found");
       }
 
+      const updatedNewsletter = await saveNewsletterContent(newsletter, content, user.id);
       res.json(updatedNewsletter);
     } catch (error) {
       console.error("Error updating newsletter:", error);
@@ -1030,6 +1391,76 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // Newsletter revision history
+  app.get("/api/loops/:id/newsletters/:newsletterId/revisions", requirePrivilegedAccess, async (req, res) => {
+    try {
+      const newsletter = await db.query.newsletters.findFirst({
+        where: and(
+          eq(newsletters.id, parseInt(req.params.newsletterId)),
+          eq(newsletters.loopId, parseInt(req.params.id))
+        ),
+      });
+
+      if (!newsletter) {
+        return res.status(404).send("Newsletter not found");
+      }
+
+      res.json(await listRevisions(newsletter.id));
+    } catch (error) {
+      console.error("Error fetching newsletter revisions:", error);
+      res.status(500).send("Failed to fetch newsletter revisions");
+    }
+  });
+
+  app.get("/api/loops/:id/newsletters/:newsletterId/revisions/:revisionId", requirePrivilegedAccess, async (req, res) => {
+    try {
+      const newsletter = await db.query.newsletters.findFirst({
+        where: and(
+          eq(newsletters.id, parseInt(req.params.newsletterId)),
+          eq(newsletters.loopId, parseInt(req.params.id))
+        ),
+      });
+
+      const revision = newsletter && await getRevision(newsletter.id, parseInt(req.params.revisionId));
+      if (!revision) {
+        return res.status(404).send("Revision not found");
+      }
+
+      res.json(revision);
+    } catch (error) {
+      console.error("Error fetching newsletter revision:", error);
+      res.status(500).send("Failed to fetch newsletter revision");
+    }
+  });
+
+  app.post("/api/loops/:id/newsletters/:newsletterId/revisions/:revisionId/restore", requirePrivilegedAccess, async (req, res) => {
+    const user = req.user as User | undefined;
+    if (!user?.id) {
+      return res.status(401).send("Not authenticated");
+    }
+
+    try {
+      const newsletter = await db.query.newsletters.findFirst({
+        where: and(
+          eq(newsletters.id, parseInt(req.params.newsletterId)),
+          eq(newsletters.loopId, parseInt(req.params.id))
+        ),
+      });
+
+      const revision = newsletter && await getRevision(newsletter.id, parseInt(req.params.revisionId));
+      if (!newsletter || !revision) {
+        return res.status(404).send("Revision not found");
+      }
+
+      // Restoring is itself a new revision, so it can be undone too
+      const updatedNewsletter = await saveNewsletterContent(newsletter, revision.content, user.id, 'restore', revision.id);
+      res.json(updatedNewsletter);
+    } catch (error) {
+      console.error("Error restoring newsletter revision:", error);
+      res.status(500).send("Failed to restore newsletter revision");
+    }
+  });
+
   app.post("/api/loops/:id/newsletters/:newsletterId/send", requirePrivilegedAccess, async (req, res) => {
     try {
       const loopId = parseInt(req.params.id);
@@ -1051,17 +1482,18 @@ export function registerRoutes(app: Express): Server {
         return res.status(404).send("Newsletter not found");
       }
 
-      // Update the newsletter status to 'sent'
-      const [updatedNewsletter] = await db
-        .update(newsletters)
-        .set({
-          status: 'sent',
-          sentAt: new Date(),
-        })
-        .where(eq(newsletters.id, newsletterId))
-        .returning();
+      if (!SENDABLE_STATUSES.includes(newsletter.status)) {
+        return res.status(400).send("This newsletter is still being generated");
+      }
 
-      res.json(updatedNewsletter);
+      // Queue the newsletter link for every member who hasn't received it yet;
+      // the admin polls the job for progress
+      const result = await sendNewsletter(newsletter);
+      if (!result) {
+        return res.status(409).send("This newsletter is already being sent");
+      }
+
+      res.status(202).json({ ...await getSMSJobProgress(result.job.id), skipped: result.skipped });
     } catch (error) {
       console.error("Error sending newsletter:", error);
       res.status(500).send("Failed to send newsletter");
@@ -1089,6 +1521,7 @@ export function registerRoutes(app: Express): Server {
             with: {
               user: {
                 columns: {
+                  id: true,
                   phoneNumber: true,
                 }
               }
@@ -1114,22 +1547,14 @@ export function registerRoutes(app: Express): Server {
         return res.status(400).send("No members with valid phone numbers found");
       }
 
-      // Send SMS to each member
-      const results = await Promise.allSettled(
-        validMembers.map(member =>
-          member.user?.phoneNumber ? sendSMS(member.user.phoneNumber, message) : Promise.reject()
-        )
+      // Queue a message for each member; the queue sends them at the provider's rate
+      const job = await createSMSJob(
+        validMembers.map(member => ({ phoneNumber: member.user!.phoneNumber, userId: member.user!.id })),
+        message,
+        { loopId, createdById: (req.user as User).id }
       );
 
-      const succeeded = results.filter(r => r.status === 'fulfilled').length;
-      const failed = results.filter(r => r.status === 'rejected').length;
-
-      res.json({
-        message: `Successfully sent ${succeeded} messages${failed > 0 ? `, ${failed} failed` : ''}`,
-        succeeded,
-        failed,
-        total: validMembers.length
-      });
+      res.status(202).json(await getSMSJobProgress(job.id));
 
     } catch (error) {
       console.error("Error sending bulk SMS:", error);
@@ -1137,6 +1562,50 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  app.get("/api/admin/sms-jobs/:id", requirePrivilegedAccess, async (req, res) => {
+    try {
+      const progress = await getSMSJobProgress(parseInt(req.params.id));
+      if (!progress) {
+        return res.status(404).send("Job not found");
+      }
+
+      res.json(progress);
+    } catch (error) {
+      console.error("Error fetching SMS job:", error);
+      res.status(500).send("Failed to fetch SMS job");
+    }
+  });
+
+  app.get("/api/admin/generation-jobs/:id", requirePrivilegedAccess, async (req, res) => {
+    try {
+      const progress = await getGenerationJobProgress(parseInt(req.params.id));
+      if (!progress) {
+        return res.status(404).send("Job not found");
+      }
+
+      res.json(progress);
+    } catch (error) {
+      console.error("Error fetching generation job:", error);
+      res.status(500).send("Failed to fetch generation job");
+    }
+  });
+
+  // Try a failed job's failed sections again
+  app.post("/api/admin/generation-jobs/:id/retry", requirePrivilegedAccess, async (req, res) => {
+    try {
+      const jobId = parseInt(req.params.id);
+      const job = await retryGenerationJob(jobId);
+      if (!job) {
+        return res.status(400).send("Only failed jobs can be retried");
+      }
+
+      res.status(202).json(await getGenerationJobProgress(jobId));
+    } catch (error) {
+      console.error("Error retrying generation job:", error);
+      res.status(500).send("Failed to retry generation job");
+    }
+  });
+
   // Create HTTP server and return it
   const httpServer = createServer(app);
   return httpServer;
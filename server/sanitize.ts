@@ -0,0 +1,44 @@
+import sanitizeHtml from 'sanitize-html';
+
+// Everything the newsletter renderer produces, plus the basic formatting an
+// admin might add in the editor. Anything else (scripts, event handlers,
+// inline styles, iframes...) is stripped.
+const NEWSLETTER_HTML_OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: [
+    'div', 'span', 'header', 'footer', 'section', 'article',
+    'h1', 'h2', 'h3', 'h4', 'p', 'br', 'hr',
+    'blockquote', 'figure', 'figcaption', 'img', 'a',
+    'ul', 'ol', 'li', 'strong', 'em', 'b', 'i', 'u',
+  ],
+  allowedAttributes: {
+    '*': ['class'],
+    div: ['class', 'data-member'],
+    img: ['class', 'src', 'alt', 'loading'],
+    a: ['class', 'href', 'target', 'rel'],
+  },
+  allowedSchemes: ['http', 'https', 'mailto'],
+  allowedSchemesByTag: {
+    img: ['https', 'http'],
+  },
+  allowProtocolRelative: false,
+  transformTags: {
+    // Links out of a newsletter never get a handle on the page that opened them
+    a: sanitizeHtml.simpleTransform('a', { rel: 'noopener noreferrer' }),
+  },
+};
+
+export function sanitizeNewsletterHtml(html: string): string {
+  return sanitizeHtml(html, NEWSLETTER_HTML_OPTIONS);
+}
+
+// For the public newsletter page: only our inline styles and the Tailwind
+// stylesheet, images from anywhere over http(s), and no scripts at all
+export const NEWSLETTER_CONTENT_SECURITY_POLICY = [
+  "default-src 'none'",
+  "style-src 'unsafe-inline' https://cdn.jsdelivr.net",
+  "font-src https://cdn.jsdelivr.net",
+  "img-src https: http:",
+  "base-uri 'none'",
+  "form-action 'none'",
+  "frame-ancestors 'none'",
+].join('; ');
@@ -0,0 +1,153 @@
+import { db } from "@db";
+import { newsletters, type Loop } from "@db/schema";
+import { and, eq, isNull } from "drizzle-orm";
+import { subHours, subMinutes } from "date-fns";
+import { formatInTimeZone } from 'date-fns-tz';
+import { sendSMS } from "./twilio";
+import { appUrl } from "./urls";
+import { generateNewsletter } from "./newsletter-generator";
+import {
+  claimScheduledIssue,
+  completeScheduledIssue,
+  getCurrentPeriod,
+  getNextIssueDate,
+  prepareDraft,
+  releaseScheduledIssue,
+  sendNewsletter,
+} from "./newsletters";
+
+// A claimed issue still generating after this long belongs to an instance
+// that stopped partway; let another run draft it
+const STALE_CLAIM_MINUTES = 30;
+
+// Drafts the next issue for each loop `draftLeadHours` before its issue date,
+// lets the creator know it's ready, and on the issue date sends drafts that
+// nobody has touched when the loop has auto-send turned on.
+async function processLoop(loop: Loop & { creator: { id: number; firstName: string; phoneNumber: string } | null }) {
+  const now = new Date();
+  const issueDate = await getNextIssueDate(loop);
+
+  if (now < subHours(issueDate, loop.draftLeadHours)) {
+    return;
+  }
+
+  const [draft] = await db
+    .select()
+    .from(newsletters)
+    .where(
+      and(
+        eq(newsletters.loopId, loop.id),
+        eq(newsletters.scheduledFor, issueDate)
+      )
+    )
+    .limit(1);
+
+  if (!draft) {
+    // Leave updates an admin already put in a draft of their own with that draft
+    const { updates: unpublished } = await getCurrentPeriod(loop.id);
+    const periodUpdates = unpublished.filter(update => update.newsletterId === null);
+    if (!periodUpdates.length) {
+      console.log(`No updates for ${loop.name}'s upcoming issue, skipping auto-draft`);
+      return;
+    }
+
+    const placeholder = await claimScheduledIssue(loop.id, issueDate);
+    if (!placeholder) {
+      return;
+    }
+
+    console.log(`Auto-drafting newsletter for ${loop.name} (issue date ${issueDate.toISOString()})`);
+    let newsletter;
+    try {
+      const { newsletterUpdates, generatorOptions } = await prepareDraft(loop, periodUpdates);
+      const content = await generateNewsletter(loop.name, newsletterUpdates, loop.vibe, generatorOptions);
+      newsletter = await completeScheduledIssue(placeholder, periodUpdates, content);
+    } catch (error) {
+      await releaseScheduledIssue(placeholder);
+      throw error;
+    }
+
+    if (loop.creator?.phoneNumber) {
+      // The editor is for admins only, so creators get the read-only page and
+      // their loop settings, where automatic sending can be switched off
+      const previewUrl = appUrl(`/newsletters/${newsletter.urlId}`);
+      const settingsUrl = appUrl(`/loops/${loop.id}`);
+      const issueDay = formatInTimeZone(issueDate, loop.timezone, 'EEEE, MMM d');
+      await sendSMS(
+        loop.creator.phoneNumber,
+        `Hi ${loop.creator.firstName}! The ${loop.name} newsletter for ${issueDay} is drafted and ready for review: ${previewUrl}` +
+          (loop.autoSend && now < issueDate
+            ? `\n\nIt will be sent automatically on ${issueDay}. To hold it, turn off automatic sending: ${settingsUrl}`
+            : ''),
+        { kind: 'message', userId: loop.creator.id, loopId: loop.id, newsletterId: newsletter.id }
+      );
+    }
+    return;
+  }
+
+  if (draft.status === 'generating') {
+    if (draft.createdAt && draft.createdAt < subMinutes(now, STALE_CLAIM_MINUTES)) {
+      console.warn(`Releasing stale auto-draft claim for ${loop.name}`);
+      await releaseScheduledIssue(draft);
+    }
+    return;
+  }
+
+  // An edited draft means someone has stepped in, so leave sending to them.
+  // So does one drafted after its issue date, e.g. the first issue of an old
+  // loop that never sent one: nobody has had a chance to review it.
+  const untouched = draft.updatedAt?.getTime() === draft.createdAt?.getTime();
+  const draftedAhead = draft.createdAt !== null && draft.createdAt < issueDate;
+  if (loop.autoSend && draft.status === 'draft' && untouched && draftedAhead && !draft.autoSendAttemptedAt && now >= issueDate) {
+    // Only one attempt per draft, on one instance, rather than one every tick
+    const [claimed] = await db
+      .update(newsletters)
+      .set({ autoSendAttemptedAt: now })
+      .where(and(eq(newsletters.id, draft.id), isNull(newsletters.autoSendAttemptedAt)))
+      .returning();
+    if (!claimed) {
+      return;
+    }
+
+    console.log(`Auto-sending newsletter ${draft.id} for ${loop.name}`);
+    const result = await sendNewsletter(claimed);
+    if (!result) {
+      console.log(`Newsletter ${draft.id} is already being sent, skipping auto-send`);
+      return;
+    }
+    // If none of the queued texts go through, the newsletter stays a draft
+    // for the creator to send by hand
+    console.log(`Auto-send of newsletter ${draft.id} queued as job ${result.job.id}`);
+  }
+}
+
+export async function runNewsletterScheduler() {
+  try {
+    const allLoops = await db.query.loops.findMany({
+      with: {
+        creator: {
+          columns: {
+            id: true,
+            firstName: true,
+            phoneNumber: true,
+          },
+        },
+      },
+    });
+
+    for (const loop of allLoops) {
+      try {
+        await processLoop(loop);
+      } catch (error) {
+        console.error(`Error scheduling newsletter for loop ${loop.id}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error('Error running newsletter scheduler:', error);
+  }
+}
+
+// Check for upcoming issues every 15 minutes
+setInterval(runNewsletterScheduler, 1000 * 60 * 15);
+// Initial check
+runNewsletterScheduler();
@@ -0,0 +1,136 @@
+import twilio from 'twilio';
+import { nanoid } from 'nanoid';
+
+export type SMSResult =
+  | { success: true; sid: string }
+  | { success: false; error: string; optedOut?: boolean; retryable?: boolean };
+
+export interface SendOptions {
+  // Where the provider should report delivery status, if it supports callbacks
+  statusCallback?: string;
+}
+
+// Anything that can send a text message. sendSMS in ./twilio wraps whichever
+// transport is active with opt-out checks and the deliveries ledger.
+export interface SMSTransport {
+  name: string;
+  send(to: string, body: string, options?: SendOptions): Promise<SMSResult>;
+}
+
+export function createTwilioTransport(accountSid: string, authToken: string, fromNumber: string): SMSTransport {
+  const client = twilio(accountSid, authToken);
+
+  return {
+    name: 'twilio',
+    async send(to, body, options = {}) {
+      try {
+        const sent = await client.messages.create({
+          body,
+          from: fromNumber,
+          to,
+          statusCallback: options.statusCallback,
+        });
+        console.log(`Sent message to ${to}`);
+        return { success: true, sid: sent.sid };
+      } catch (error) {
+        console.error('Failed to send message:', error);
+        // Rate limiting, Twilio outages and network errors are worth another
+        // try; anything else (bad number, unsubscribed...) won't get better
+        const status = typeof error === 'object' && error !== null && 'status' in error && typeof error.status === 'number'
+          ? error.status
+          : undefined;
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+          retryable: !status || status === 429 || status >= 500,
+        };
+      }
+    },
+  };
+}
+
+export interface LocalMessage {
+  id: string;
+  direction: 'outbound' | 'inbound';
+  phoneNumber: string;
+  body: string;
+  createdAt: string;
+}
+
+// How many messages the local outbox keeps before dropping the oldest
+const LOCAL_OUTBOX_LIMIT = 500;
+
+export interface LocalTransport extends SMSTransport {
+  messages: LocalMessage[];
+  record(direction: LocalMessage['direction'], phoneNumber: string, body: string): LocalMessage;
+  clear(): void;
+}
+
+// Stand-in for a real provider in development: messages are logged to the
+// console and kept in memory for the dev SMS page to show
+export function createLocalTransport(): LocalTransport {
+  const messages: LocalMessage[] = [];
+
+  const record = (direction: LocalMessage['direction'], phoneNumber: string, body: string) => {
+    const message = {
+      id: `LOCAL${nanoid()}`,
+      direction,
+      phoneNumber,
+      body,
+      createdAt: new Date().toISOString(),
+    };
+    messages.push(message);
+    if (messages.length > LOCAL_OUTBOX_LIMIT) {
+      messages.splice(0, messages.length - LOCAL_OUTBOX_LIMIT);
+    }
+    return message;
+  };
+
+  return {
+    name: 'local',
+    messages,
+    record,
+    clear() {
+      messages.length = 0;
+    },
+    async send(to, body) {
+      const message = record('outbound', to, body);
+      console.log(`[local sms] to ${to}: ${body}`);
+      return { success: true, sid: message.id };
+    },
+  };
+}
+
+// Other providers (Vonage, Telnyx...) register a factory here and are picked
+// with SMS_PROVIDER. A factory returns null when its credentials are missing.
+const transportFactories: Record<string, () => SMSTransport | null> = {
+  twilio: () => {
+    const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_PHONE_NUMBER } = process.env;
+    if (!TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN || !TWILIO_PHONE_NUMBER) {
+      return null;
+    }
+    return createTwilioTransport(TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_PHONE_NUMBER);
+  },
+  local: () => createLocalTransport(),
+};
+
+export function registerTransport(name: string, factory: () => SMSTransport | null) {
+  transportFactories[name] = factory;
+}
+
+// SMS_PROVIDER wins; otherwise Twilio when it's configured, and the local
+// stand-in outside production so reminders and welcomes can be tried in dev
+export function createTransport(): SMSTransport | null {
+  const requested = process.env.SMS_PROVIDER;
+  if (requested) {
+    const factory = transportFactories[requested];
+    if (!factory) {
+      console.warn(`Unknown SMS_PROVIDER "${requested}"`);
+      return null;
+    }
+    return factory();
+  }
+
+  return transportFactories.twilio()
+    ?? (process.env.NODE_ENV !== 'production' ? transportFactories.local() : null);
+}
@@ -0,0 +1,97 @@
+import { db } from "@db";
+import { messageTemplates } from "@db/schema";
+import { and, eq } from "drizzle-orm";
+
+export const TEMPLATE_KEYS = ['welcome', 'reminder', 'followUp', 'lastCall', 'thanks', 'newsletter'] as const;
+export type TemplateKey = typeof TEMPLATE_KEYS[number];
+export type Templates = Record<TemplateKey, string>;
+
+export function isTemplateKey(key: unknown): key is TemplateKey {
+  return TEMPLATE_KEYS.includes(key as TemplateKey);
+}
+
+export const DEFAULT_TEMPLATES: Templates = {
+  welcome: `Hi {{firstName}}! 🎉 Looks like you've been LoopedIn to {{loopName}} by {{inviterName}}—welcome!
+
+No need to sign up, all you have to do is reply to this message with your updates, photos, or even your random shower thoughts—no pressure, no perfection required.
+
+In a couple weeks, we'll transform everyone's updates into a delightful newsletter for your group to enjoy.
+
+📌 Pro Tip: Save this number as LoopedIn in your contacts so you don't miss a thing! Reply STOP to opt out.
+
+Still confused? Check out our quick getting started guide:
+https://docs.google.com/document/d/e/2PACX-1vTluWn3opUaUj9_Zfz08vc0aHR13ipH7tGwvXDFBvgYHuHUWpG-yk3_EXJRlli2zfVXkph23GlBQ9us/pub`,
+  reminder: "Hi {{firstName}}! Share your updates for {{loopName}}'s newsletter! Reply to this message with text or photos.",
+  followUp: "Hi {{firstName}}, we'd still love to hear from you for {{loopName}}'s next newsletter. Just reply with a quick update or a photo!",
+  lastCall: "Last call, {{firstName}}! {{loopName}}'s newsletter is being put together on {{deadline}}. Reply now to make it in.",
+  thanks: "Thanks for sharing with {{loopName}}, {{firstName}}! Your update will be in the next newsletter.",
+  newsletter: "Hi {{firstName}}! The latest {{loopName}} newsletter is here 📰 {{newsletterUrl}}",
+};
+
+// Which variables each template can use
+export const TEMPLATE_VARIABLES: Record<TemplateKey, string[]> = {
+  welcome: ['firstName', 'loopName', 'inviterName', 'loopCode'],
+  reminder: ['firstName', 'loopName', 'deadline'],
+  followUp: ['firstName', 'loopName', 'deadline'],
+  lastCall: ['firstName', 'loopName', 'deadline'],
+  thanks: ['firstName', 'loopName'],
+  newsletter: ['firstName', 'loopName', 'newsletterUrl'],
+};
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Fill in a template's variables. A variable without a value renders as
+// nothing rather than reaching members as a literal {{name}}.
+export function renderTemplate(body: string, variables: Record<string, string | null | undefined>) {
+  return body.replace(VARIABLE_PATTERN, (_match, name) => variables[name] ?? '');
+}
+
+// Variables in a template body that the template doesn't support
+export function findUnknownVariables(key: TemplateKey, body: string) {
+  const names = Array.from(body.matchAll(VARIABLE_PATTERN), match => match[1]);
+  return names.filter(name => !TEMPLATE_VARIABLES[key].includes(name));
+}
+
+// A loop's templates, with its overrides on top of the defaults
+export async function getLoopTemplates(loopId: number): Promise<Templates> {
+  const overrides = await db
+    .select()
+    .from(messageTemplates)
+    .where(eq(messageTemplates.loopId, loopId));
+
+  const templates = { ...DEFAULT_TEMPLATES };
+  for (const override of overrides) {
+    if (isTemplateKey(override.key)) {
+      templates[override.key] = override.body;
+    }
+  }
+  return templates;
+}
+
+export async function getLoopTemplate(loopId: number, key: TemplateKey) {
+  const [override] = await db
+    .select()
+    .from(messageTemplates)
+    .where(and(eq(messageTemplates.loopId, loopId), eq(messageTemplates.key, key)))
+    .limit(1);
+
+  return override?.body ?? DEFAULT_TEMPLATES[key];
+}
+
+// Save a loop's wording for a template; a blank body goes back to the default
+export async function saveLoopTemplate(loopId: number, key: TemplateKey, body: string | null) {
+  if (!body?.trim()) {
+    await db
+      .delete(messageTemplates)
+      .where(and(eq(messageTemplates.loopId, loopId), eq(messageTemplates.key, key)));
+    return;
+  }
+
+  await db
+    .insert(messageTemplates)
+    .values({ loopId, key, body })
+    .onConflictDoUpdate({
+      target: [messageTemplates.loopId, messageTemplates.key],
+      set: { body, updatedAt: new Date() },
+    });
+}
@@ -1,122 +1,235 @@
 import twilio from 'twilio';
 import { db } from "@db";
-import { loops } from "@db/schema";
-import { sql } from "drizzle-orm";
-import { formatInTimeZone } from 'date-fns-tz';
-
-const hasCredentials = !!(process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN && process.env.TWILIO_PHONE_NUMBER);
-let client: ReturnType<typeof twilio> | null = null;
-let fromNumber: string | null = null;
-
-if (hasCredentials) {
-  console.log('Initializing Twilio client with credentials');
-  client = twilio(
-    process.env.TWILIO_ACCOUNT_SID!,
-    process.env.TWILIO_AUTH_TOKEN!
-  );
-  fromNumber = process.env.TWILIO_PHONE_NUMBER!;
-  console.log('Twilio client initialized successfully');
-} else {
-  console.warn('Twilio credentials not configured. SMS features are disabled.');
+import { deliveries, type Loop } from "@db/schema";
+import { eq } from "drizzle-orm";
+import { appUrl } from './urls';
+import { isOptedOut } from './optouts';
+import { getDeferralTime } from './quiet-hours';
+import { getLoopTemplate, renderTemplate } from './templates';
+import { createTransport, type LocalTransport, type SMSResult, type SMSTransport } from './sms-transport';
+import { enqueueSMS } from './queue';
+
+export type { SMSResult };
+
+// Provider-wide send rate; Twilio long codes allow about one message a second
+const MESSAGES_PER_SECOND = parseFloat(process.env.SMS_MESSAGES_PER_SECOND || '1');
+
+// Chosen on first use so providers registered at startup are available
+let transport: SMSTransport | null | undefined;
+
+export function getTransport() {
+  if (transport === undefined) {
+    transport = createTransport();
+    if (transport) {
+      console.log(`SMS transport: ${transport.name}`);
+    } else {
+      console.warn('No SMS provider configured. SMS features are disabled.');
+    }
+  }
+  return transport;
 }
 
-export async function sendWelcomeMessage(phoneNumber: string, loopName: string, memberFirstName: string, inviterName: string) {
-  if (!hasCredentials || !client || !fromNumber) {
-    console.warn('Twilio not configured, skipping welcome message');
-    return;
+function escapeXml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// TwiML reply to an inbound message
+export function twimlMessage(message: string) {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Message>${escapeXml(message)}</Message>
+</Response>`;
+}
+
+// Check the X-Twilio-Signature header of a webhook request. Twilio signs the
+// public URL it called, which behind a proxy isn't the host we see, so the URL
+// is rebuilt from APP_URL.
+export function isValidTwilioSignature(signature: string | undefined, path: string, params: Record<string, string>) {
+  if (!process.env.TWILIO_AUTH_TOKEN || !signature) {
+    return false;
   }
+  return twilio.validateRequest(process.env.TWILIO_AUTH_TOKEN, signature, appUrl(path), params);
+}
 
-  try {
-    await client.messages.create({
-      body: `Hi ${memberFirstName}! 🎉 Looks like you've been LoopedIn to ${loopName} by ${inviterName}—welcome!
+// The local stand-in, when it's the active transport outside production
+export function getLocalTransport() {
+  const active = getTransport();
+  if (process.env.NODE_ENV === 'production' || active?.name !== 'local') {
+    return null;
+  }
+  return active as LocalTransport;
+}
 
-No need to sign up, all you have to do is reply to this message with your updates, photos, or even your random shower thoughts—no pressure, no perfection required.
+export function isSMSConfigured() {
+  return getTransport() !== null;
+}
 
-In a couple weeks, we'll transform everyone's updates into a delightful newsletter for your group to enjoy.
+export async function sendWelcomeMessage(
+  phoneNumber: string,
+  loop: Loop,
+  memberFirstName: string,
+  inviterName: string,
+  recipient: Omit<DeliveryContext, 'kind'> = {}
+) {
+  const template = await getLoopTemplate(loop.id, 'welcome');
+  const message = renderTemplate(template, {
+    firstName: memberFirstName,
+    loopName: loop.name,
+    inviterName,
+    // [Loop Name] works wherever [CODE] does, for a loop without a code yet
+    loopCode: loop.shortCode ?? loop.name,
+  });
+
+  // Queued, so adding a batch of members doesn't wait on the send rate limit
+  await enqueueSMS(phoneNumber, message, { ...recipient, kind: 'welcome' });
+  console.log(`Queued welcome message to ${phoneNumber} for ${loop.name}`);
+}
 
-📌 Pro Tip: Save this number as LoopedIn in your contacts so you don't miss a thing! Reply STOP to opt out.
+// Who a message is for and why, recorded alongside it in the deliveries ledger
+export interface DeliveryContext {
+  kind?: 'newsletter' | 'reminder' | 'thanks' | 'welcome' | 'bulk' | 'message';
+  userId?: number;
+  loopId?: number;
+  newsletterId?: number;
+  jobId?: number;
+}
 
-Still confused? Check out our quick getting started guide:
-https://docs.google.com/document/d/e/2PACX-1vTluWn3opUaUj9_Zfz08vc0aHR13ipH7tGwvXDFBvgYHuHUWpG-yk3_EXJRlli2zfVXkph23GlBQ9us/pub`,
-      from: fromNumber,
-      to: phoneNumber
+// A message held for the recipient's quiet hours is queued rather than sent
+export type SendResult = SMSResult | { success: true; deferredUntil: Date };
+
+export async function sendSMS(
+  phoneNumber: string,
+  message: string,
+  context: DeliveryContext = {}
+): Promise<SendResult> {
+  // Never text numbers that replied STOP, to everything or to this loop
+  if (await isOptedOut(phoneNumber, context.loopId)) {
+    console.log(`Skipping SMS to opted-out number ${phoneNumber}`);
+    await db.insert(deliveries).values({
+      kind: context.kind ?? 'message',
+      userId: context.userId,
+      loopId: context.loopId,
+      newsletterId: context.newsletterId,
+      jobId: context.jobId,
+      channel: 'sms',
+      toNumber: phoneNumber,
+      body: message,
+      status: 'suppressed',
+      error: 'Recipient opted out',
     });
-    console.log(`Sent welcome message to ${phoneNumber} for ${loopName}`);
-  } catch (error) {
-    console.error('Failed to send welcome message:', error);
+    return { success: false, error: 'Recipient opted out', optedOut: true };
   }
-}
 
-export async function sendSMS(phoneNumber: string, message: string) {
-  if (!hasCredentials || !client || !fromNumber) {
-    console.warn('Twilio not configured, skipping SMS');
-    return;
+  // Inside the recipient's quiet hours: leave it for the outbound queue to send when they end
+  const deferredUntil = await getDeferralTime(context);
+  if (deferredUntil) {
+    console.log(`Deferring ${context.kind} SMS to ${phoneNumber} until ${deferredUntil.toISOString()}`);
+    await db.insert(deliveries).values({
+      kind: context.kind ?? 'message',
+      userId: context.userId,
+      loopId: context.loopId,
+      newsletterId: context.newsletterId,
+      jobId: context.jobId,
+      channel: 'sms',
+      toNumber: phoneNumber,
+      body: message,
+      status: 'queued',
+      nextAttemptAt: deferredUntil,
+    });
+    return { success: true, deferredUntil };
   }
 
-  try {
-    await client.messages.create({
+  const [delivery] = await db
+    .insert(deliveries)
+    .values({
+      kind: context.kind ?? 'message',
+      userId: context.userId,
+      loopId: context.loopId,
+      newsletterId: context.newsletterId,
+      jobId: context.jobId,
+      channel: 'sms',
+      toNumber: phoneNumber,
       body: message,
-      from: fromNumber,
-      to: phoneNumber
-    });
-    console.log(`Sent message to ${phoneNumber}`);
-  } catch (error) {
-    console.error('Failed to send message:', error);
+      status: 'pending',
+      attempts: 1,
+    })
+    .returning();
+
+  const result = await sendThroughTransport(phoneNumber, message);
+
+  await db
+    .update(deliveries)
+    .set(result.success
+      ? { status: 'sent', providerMessageSid: result.sid, sentAt: new Date(), updatedAt: new Date() }
+      : { status: 'failed', error: result.error, updatedAt: new Date() })
+    .where(eq(deliveries.id, delivery.id));
+
+  return result;
+}
+
+let nextSendAt = 0;
+
+// Space sends out to MESSAGES_PER_SECOND across everything in this process
+async function throttle() {
+  const now = Date.now();
+  const wait = Math.max(0, nextSendAt - now);
+  nextSendAt = Math.max(now, nextSendAt) + 1000 / MESSAGES_PER_SECOND;
+  if (wait > 0) {
+    await new Promise(resolve => setTimeout(resolve, wait));
   }
 }
 
-export async function sendReminder(phoneNumber: string, loopName: string) {
-  const message = `Hi! Share your updates for ${loopName}'s newsletter! Reply to this message with text or photos.`;
-  await sendSMS(phoneNumber, message);
+export async function sendThroughTransport(phoneNumber: string, message: string): Promise<SMSResult> {
+  const active = getTransport();
+  if (!active) {
+    console.warn('SMS not configured, skipping SMS');
+    return { success: false, error: 'SMS not configured' };
+  }
+
+  await throttle();
+
+  return active.send(phoneNumber, message, {
+    statusCallback: appUrl('/api/webhooks/twilio/status'),
+  });
 }
 
-// Reminder scheduler
-export async function sendScheduledReminders() {
-  if (!hasCredentials) {
-    console.warn('Twilio not configured, skipping reminders');
+// Statuses Twilio reports through the status callback that we track. Earlier
+// states ('queued', 'sending') are already covered by 'sent' in the ledger.
+const FINAL_STATUSES = ['delivered', 'undelivered', 'failed'];
+
+export async function recordDeliveryStatus(messageSid: string, status: string, errorCode?: string) {
+  if (status !== 'sent' && !FINAL_STATUSES.includes(status)) {
     return;
   }
 
-  const now = new Date();
-  const currentDay = formatInTimeZone(now, 'America/New_York', 'EEEE');
-  const currentTime = formatInTimeZone(now, 'America/New_York', 'HH:mm');
-
-  console.log(`Checking for reminders on ${currentDay} at ${currentTime} Eastern Time`);
-
-  try {
-    const loopsToRemind = await db.query.loops.findMany({
-      where: sql`EXISTS (
-        SELECT 1 FROM jsonb_array_elements(CAST(${loops.reminderSchedule} AS JSONB)) as schedule
-        WHERE schedule->>'day' = ${currentDay}
-        AND schedule->>'time' = ${currentTime}
-      )`,
-      with: {
-        members: {
-          with: {
-            user: true,
-          },
-        },
-      },
-    });
+  const [delivery] = await db
+    .select()
+    .from(deliveries)
+    .where(eq(deliveries.providerMessageSid, messageSid))
+    .limit(1);
 
-    console.log(`Found ${loopsToRemind.length} loops scheduled for reminders`);
-
-    for (const loop of loopsToRemind) {
-      console.log(`Processing reminders for loop: ${loop.name}`);
-      for (const member of loop.members) {
-        if (member.user?.phoneNumber) {
-          await sendReminder(member.user.phoneNumber, loop.name);
-        }
-      }
-    }
+  if (!delivery) {
+    console.warn(`Status callback for unknown message: ${messageSid}`);
+    return;
+  }
 
-    console.log(`Sent reminders for ${loopsToRemind.length} loops`);
-  } catch (error) {
-    console.error('Error sending scheduled reminders:', error);
+  // Callbacks can arrive out of order; never move a final status back to 'sent'
+  if (status === 'sent' && FINAL_STATUSES.includes(delivery.status)) {
+    return;
   }
-}
 
-// Check for reminders every minute
-setInterval(sendScheduledReminders, 1000 * 60);
-// Initial check
-sendScheduledReminders();
\ No newline at end of file
+  await db
+    .update(deliveries)
+    .set({
+      status,
+      error: errorCode ? `Twilio error ${errorCode}` : delivery.error,
+      deliveredAt: status === 'delivered' ? new Date() : delivery.deliveredAt,
+      updatedAt: new Date(),
+    })
+    .where(eq(deliveries.id, delivery.id));
+}
\ No newline at end of file
@@ -0,0 +1,10 @@
+// Base URL used for links we send out of band (SMS, callbacks), where there is
+// no incoming request to derive the host from.
+const baseUrl = (
+  process.env.APP_URL ||
+  (process.env.REPLIT_DEV_DOMAIN ? `https://${process.env.REPLIT_DEV_DOMAIN}` : 'http://localhost:5000')
+).replace(/\/+$/, '');
+
+export function appUrl(path: string = '/') {
+  return `${baseUrl}${path.startsWith('/') ? path : `/${path}`}`;
+}